@@ -6,16 +6,50 @@ declare global {
 			TWITCH_CHANNELS: string;
 			TWITCH_ACCESS_TOKEN: string;
 			TWITCH_REFRESH_TOKEN: string;
-			OPENAI_API_KEY: string;
+			MOCK_MODE?: string;
+			OPENAI_API_KEY?: string;
 			OPENAI_IMAGES_PER_MINUTE: string;
 			OPENAI_MODEL: string;
 			DISCORD_BOT_TOKEN: string;
 			DISCORD_CHANNELS: string;
 			DISCORD_ADMIN_USER_ID: string;
 			MAX_RETRIES: string;
-			CLOUDFLARE_ACCOUNT_ID: string;
-			CLOUDFLARE_API_TOKEN: string;
-			CLOUDFLARE_IMAGES_URL: string;
+			STYLE_HISTORY_SIZE?: string;
+			PROMPTS_DIR?: string;
+			GENERATION_RULES_FILE?: string;
+			COMMAND_ROLES?: string;
+			TRIGGERS_FILE?: string;
+			BROADCASTER_TOKENS_DIR?: string;
+			EVENTSUB_URL?: string;
+			IMAGE_HOST?: string;
+			CLOUDFLARE_ACCOUNT_ID?: string;
+			CLOUDFLARE_API_TOKEN?: string;
+			CLOUDFLARE_IMAGES_URL?: string;
+			DATABASE_URL?: string;
+			HTTP_PORT?: string;
+			STORAGE_BACKEND?: string;
+			IMAGE_PROVIDER?: string;
+			IMAGE_PROVIDER_CHANNELS?: string;
+			OPENAI_IMAGE_MODEL?: string;
+			LOCAL_IMAGE_API_URL?: string;
+			S3_BUCKET?: string;
+			S3_PUBLIC_URL?: string;
+			S3_REGION?: string;
+			S3_ENDPOINT?: string;
+			S3_ACCESS_KEY_ID?: string;
+			S3_SECRET_ACCESS_KEY?: string;
+			LOCAL_IMAGES_DIR?: string;
+			LOCAL_IMAGES_URL?: string;
+			MODERATION?: string;
+			MODERATION_KEYWORDS?: string;
+			PRICE_TABLE?: string;
+			BUDGET_DAILY?: string;
+			BUDGET_MONTHLY?: string;
+			BUDGET_CHANNELS?: string;
+			BUDGET_EXCEEDED_ACTION?: string;
+			GIFT_BATCH_WINDOW_SECONDS?: string;
+			GIFT_BATCH_MODE?: string;
+			GIFT_BATCH_MAX_RECIPIENTS?: string;
 		}
 	}
 }
@@ -0,0 +1,65 @@
+import 'dotenv/config';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { BackupManager, ImportMode } from '../src/managers/BackupManager';
+import { openDatabase, resolveDatabasePath } from '../src/utils/database';
+import { createStorage, StorageBackendName } from '../src/storage/createStorage';
+import { runMigrations } from '../src/migrations/runMigrations';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const USAGE = `Usage:
+  npm run backup -- export <file> [--tokens]
+  npm run backup -- import <file> <merge|replace>`;
+
+async function backup() {
+	const [action, filePath, option] = process.argv.slice(2);
+	if (!filePath || (action !== 'export' && action !== 'import')) {
+		throw new Error(USAGE);
+	}
+	if (action === 'import' && option !== 'merge' && option !== 'replace') {
+		throw new Error(USAGE);
+	}
+
+	const rootDir = path.resolve(path.join(__dirname, '..'));
+	const dataDir = path.join(rootDir, 'data');
+	const backend = (process.env.STORAGE_BACKEND || 'file') as StorageBackendName;
+	if (backend === 'memory') {
+		throw new Error('The memory storage backend keeps nothing to back up.');
+	}
+
+	const databasePath = resolveDatabasePath(process.env.DATABASE_URL || 'file:data/sweat.db', rootDir);
+	await runMigrations(dataDir);
+	const { documentStorage, imageStorage } = createStorage(backend, dataDir, openDatabase(databasePath));
+	const imageDataStore = new ImageDataStore(imageStorage);
+	const backupManager = new BackupManager(documentStorage, imageDataStore, path.join(dataDir, 'tokens.json'));
+
+	try {
+		if (action === 'export') {
+			const archive = await backupManager.exportArchive({ includeTokens: option === '--tokens' });
+			await fs.writeFile(filePath, JSON.stringify(archive, null, 4), 'utf-8');
+			console.log(`Exported bot state${archive.tokens ? ' including tokens' : ''} to ${filePath}`);
+		} else {
+			const archive = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+			const result = await backupManager.importArchive(archive, option as ImportMode);
+			console.log(
+				`Imported ${filePath} (${result.mode}): ${result.images} images added, ${result.skippedImages} already known${result.tokens ? ', tokens restored' : ''}`,
+			);
+		}
+	} finally {
+		// With the sqlite backend both are the same storage, which can only be closed once.
+		if (documentStorage !== imageStorage) {
+			await documentStorage.close();
+		}
+		await imageDataStore.close();
+	}
+}
+
+backup().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
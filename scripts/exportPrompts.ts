@@ -0,0 +1,30 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DEFAULT_PROMPT_SET } from '../src/constants/prompts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Writes the built-in prompts as a prompt set file, a starting point for new prompt versions.
+ */
+async function exportPrompts() {
+	const rootDir = path.resolve(path.join(__dirname, '..'));
+	const filePath = process.argv[2] ?? path.join(rootDir, 'data', 'prompts', 'default.json');
+
+	const promptSet = {
+		name: DEFAULT_PROMPT_SET.name,
+		version: DEFAULT_PROMPT_SET.version,
+		structuredOutputPrompt: DEFAULT_PROMPT_SET.structuredOutputPrompt.split('\n'),
+		themeInstructionBlock: DEFAULT_PROMPT_SET.themeInstructionBlock.split('\n'),
+		imagePromptTemplate: DEFAULT_PROMPT_SET.imagePromptTemplate.split('\n'),
+	};
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, JSON.stringify(promptSet, null, 4), 'utf-8');
+	console.log(`Exported prompts ${promptSet.name}@${promptSet.version} to ${filePath}`);
+}
+
+exportPrompts().catch(console.error);
@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { openDatabase, resolveDatabasePath } from '../src/utils/database';
+import { SqliteStorage } from '../src/storage/SqliteStorage';
+import { BroadcasterImages } from '../src/types/images';
+import { readDataFile } from '../src/utils/persistence';
+import { migrateDataFile } from '../src/migrations/runMigrations';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function importImagesFile() {
+	const rootDir = path.resolve(path.join(__dirname, '..'));
+	const imagesFilePath = process.argv[2] ?? path.join(rootDir, 'data', 'images.json');
+	const databasePath = resolveDatabasePath(process.env.DATABASE_URL || 'file:data/sweat.db', rootDir);
+
+	await migrateDataFile('images', imagesFilePath);
+	const data = await readDataFile<BroadcasterImages>(imagesFilePath);
+	const imageDataStore = new ImageDataStore(new SqliteStorage(openDatabase(databasePath)));
+
+	if ((await imageDataStore.countImages()) > 0) {
+		await imageDataStore.close();
+		throw new Error(`Database at ${databasePath} already contains images, refusing to import twice.`);
+	}
+
+	const imported = await imageDataStore.importBroadcasterImages(data);
+	await imageDataStore.close();
+
+	console.log(`Imported ${imported} images from ${imagesFilePath} into ${databasePath}`);
+}
+
+importImagesFile().catch(console.error);
@@ -10,3 +10,8 @@ export const OPENAI_THROTTLE_INTERVAL_MS = 60 * 1000;
 
 export const DALLE_THROTTLE_LIMIT = env.OPENAI_IMAGES_PER_MINUTE;
 export const DALLE_THROTTLE_INTERVAL_MS = 60 * 1000;
+
+export const STYLE_HISTORY_SIZE = env.STYLE_HISTORY_SIZE;
+
+// Deferred jobs are retried this often while their channel's budget is used up.
+export const DEFERRED_JOBS_INTERVAL_MS = 15 * 60 * 1000;
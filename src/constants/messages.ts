@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { messageTemplatesSchema } from '../schemas/dataFileSchemas';
+
+export type MessageTemplates = Required<z.infer<typeof messageTemplatesSchema>>;
+
+export type MessageKey = keyof MessageTemplates;
+
+export const MESSAGE_PLACEHOLDERS = ['user', 'verb', 'url', 'style', 'target', 'meaning'] as const;
+
+/**
+ * Values for the `__USER__`, `__VERB__`, ... placeholders of a message template. Missing values are left empty.
+ */
+export type MessageValues = Partial<Record<(typeof MESSAGE_PLACEHOLDERS)[number], string>>;
+
+/**
+ * Chat messages used by channels without their own templates, the messages the bot always sent.
+ * `thanks` is sent when there is no image, `image` with the finished image and `failure` when generation failed.
+ */
+export const DEFAULT_MESSAGES: MessageTemplates = {
+	thanks: 'Thank you @__USER__ for __VERB__ dnkLove',
+	image: 'Thank you @__USER__ for __VERB__ dnkLove This is for you: __URL__',
+	failure: 'Thank you @__USER__ for __VERB__ dnkLove Unfortunately, I was unable to generate an image for you.',
+	myai: '@__USER__ Check your sweatlings at https://www.curvyspiderwife.com/user/__USER__ or in Discord dnkLove',
+	meaning: "@__USER__ __TARGET__ means '__MEANING__' dnkNoted",
+};
+
+export function isMessageKey(value: string): value is MessageKey {
+	return Object.hasOwn(DEFAULT_MESSAGES, value);
+}
+
+export function renderMessage(template: string, values: MessageValues): string {
+	return MESSAGE_PLACEHOLDERS.reduce(
+		(message, placeholder) => message.replaceAll(`__${placeholder.toUpperCase()}__`, values[placeholder] ?? ''),
+		template,
+	);
+}
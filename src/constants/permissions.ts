@@ -0,0 +1,62 @@
+/**
+ * Chat roles from least to most privileged. Every role may run the commands of the roles before it.
+ * Trusted users are granted per channel with `!addtrusted`, admins come from `TWITCH_ADMINS` and count in every channel.
+ */
+export const ROLES = ['viewer', 'vip', 'trusted', 'mod', 'broadcaster', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Minimum role per command. Commands that are not listed can be run by everyone.
+ */
+export const DEFAULT_COMMAND_ROLES: Record<string, Role> = {
+	aisweatling: 'broadcaster',
+	reroll: 'broadcaster',
+	settheme: 'mod',
+	deltheme: 'mod',
+	// meanings are shared by every channel
+	setmeaning: 'broadcaster',
+	delmeaning: 'broadcaster',
+	bangifter: 'mod',
+	unbangifter: 'mod',
+	addtrusted: 'broadcaster',
+	removetrusted: 'broadcaster',
+	setmessage: 'broadcaster',
+	resetmessage: 'broadcaster',
+	// styles are shared by every channel
+	addstyle: 'admin',
+	delstyle: 'admin',
+	styleweight: 'admin',
+	enablestyle: 'broadcaster',
+	disablestyle: 'broadcaster',
+	resetstyle: 'broadcaster',
+	stylemode: 'broadcaster',
+	reloadprompts: 'admin',
+	promptversion: 'broadcaster',
+	spend: 'broadcaster',
+	ping: 'admin',
+	say: 'broadcaster',
+	uguu: 'broadcaster',
+	quack: 'broadcaster',
+	testall: 'broadcaster',
+	canceltests: 'broadcaster',
+};
+
+export function isRole(value: string): value is Role {
+	return (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads minimum role overrides given as comma separated command:role pairs, on top of the default roles.
+ */
+export function parseCommandRoles(value: string | undefined): Record<string, Role> {
+	const commandRoles = { ...DEFAULT_COMMAND_ROLES };
+	for (const entry of (value ?? '').split(',').filter(Boolean)) {
+		const [command, role] = entry.split(':').map((part) => part.trim().toLowerCase());
+		if (!command || !role || !isRole(role)) {
+			throw new Error(`Invalid command role "${entry}", expected command:${ROLES.join('|')}`);
+		}
+		commandRoles[command.replace(/^!/, '')] = role;
+	}
+	return commandRoles;
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { ImageOptions } from '../providers/ImageProvider';
+
+/**
+ * Estimated USD cost of a single call per model. Chat calls are priced per structured completion.
+ * Image calls are priced per `model:quality:size` when listed, e.g. `dall-e-3:high:landscape`,
+ * and otherwise per model as a square image at standard quality.
+ */
+export type PriceTable = Record<string, number>;
+
+export const DEFAULT_PRICES: PriceTable = {
+	'gpt-4o': 0.01,
+	'gpt-4o-mini': 0.0005,
+	'gpt-4.1': 0.008,
+	'gpt-4.1-mini': 0.0015,
+	'dall-e-3': 0.04,
+	'dall-e-3:standard:landscape': 0.08,
+	'dall-e-3:standard:portrait': 0.08,
+	'dall-e-3:high:square': 0.08,
+	'dall-e-3:high:landscape': 0.12,
+	'dall-e-3:high:portrait': 0.12,
+	'gpt-image-1': 0.042,
+	'gpt-image-1:standard:landscape': 0.063,
+	'gpt-image-1:standard:portrait': 0.063,
+	'gpt-image-1:high:square': 0.167,
+	'gpt-image-1:high:landscape': 0.25,
+	'gpt-image-1:high:portrait': 0.25,
+	local: 0,
+};
+
+/**
+ * Returns the price of a call, or undefined if neither the model nor its quality and size are listed.
+ */
+export function getPrice(
+	prices: PriceTable,
+	model: string,
+	{ quality = 'standard', size = 'square' }: ImageOptions = {},
+): number | undefined {
+	return prices[`${model}:${quality}:${size}`] ?? prices[model];
+}
+
+const priceTableSchema = z.record(z.string(), z.number().min(0));
+
+/**
+ * Reads price overrides given as a JSON object of model to price, on top of the default prices.
+ */
+export function parsePriceTable(value: string | undefined): PriceTable {
+	if (!value) {
+		return DEFAULT_PRICES;
+	}
+
+	const result = priceTableSchema.safeParse(JSON.parse(value));
+	if (!result.success) {
+		throw new Error(`Invalid price table: ${result.error.message}`);
+	}
+	return { ...DEFAULT_PRICES, ...result.data };
+}
@@ -95,3 +95,28 @@ These are just examples. ALWAYS begin with the style specified in the JSON.
 
 Data:
 __DATA__`;
+
+export const SCENE_FROM_ANALYSIS_PROMPT = `The username was already interpreted, keep this interpretation exactly as it is:
+
+__ANALYSIS__
+
+Only create the structured avatar and scene (PART 2) based on this interpretation.`;
+
+export type PromptSet = {
+	name: string;
+	version: number;
+	structuredOutputPrompt: string;
+	themeInstructionBlock: string;
+	imagePromptTemplate: string;
+};
+
+/**
+ * The prompts above as a prompt set, used whenever no other set is assigned.
+ */
+export const DEFAULT_PROMPT_SET: PromptSet = {
+	name: 'default',
+	version: 1,
+	structuredOutputPrompt: STRUCTURED_OUTPUT_PROMPT,
+	themeInstructionBlock: THEME_INSTRUCTION_BLOCK,
+	imagePromptTemplate: DALLE_IMAGE_PROMPT_TEMPLATE,
+};
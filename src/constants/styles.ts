@@ -2,6 +2,10 @@ export type DalleTemplate = {
 	name: string;
 	keyword: string;
 	description: string;
+	/**
+	 * Relative chance of being picked at random, 1 if not set.
+	 */
+	weight?: number;
 };
 
 export const DALLE_TEMPLATES: DalleTemplate[] = [
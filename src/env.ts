@@ -1,5 +1,12 @@
 import 'dotenv/config';
 import Joi from 'joi';
+import type { StorageBackendName } from './storage/createStorage';
+import type { ImageProviderName } from './providers/ImageProvider';
+import type { ImageHostName } from './hosts/ImageHost';
+import type { GiftBatchMode } from './managers/GiftBatcher';
+
+// Mock mode never talks to OpenAI or an image host, so their credentials are optional.
+const requiredUnlessMocked = Joi.when('MOCK_MODE', { is: true, otherwise: Joi.required() });
 
 const envSchema = Joi.object()
 	.keys({
@@ -9,18 +16,53 @@ const envSchema = Joi.object()
 		TWITCH_ACCESS_TOKEN: Joi.string().required(),
 		TWITCH_REFRESH_TOKEN: Joi.string().required(),
 		TWITCH_ADMINS: Joi.string().required(),
-		OPENAI_API_KEY: Joi.string().required(),
+		MOCK_MODE: Joi.boolean().default(false),
+		OPENAI_API_KEY: Joi.string().when('MOCK_MODE', { is: true, otherwise: Joi.required() }),
 		OPENAI_IMAGES_PER_MINUTE: Joi.number().integer().min(1).required(),
 		OPENAI_MODEL: Joi.string().required(),
 		DISCORD_BOT_TOKEN: Joi.string().required(),
 		DISCORD_CHANNELS: Joi.string().required(),
 		DISCORD_ADMIN_USER_ID: Joi.string().required(),
 		MAX_RETRIES: Joi.number().integer().min(1).default(3),
-		CLOUDFLARE_ACCOUNT_ID: Joi.string().required(),
-		CLOUDFLARE_API_TOKEN: Joi.string().required(),
-		CLOUDFLARE_IMAGES_URL: Joi.string().uri().required(),
+		STYLE_HISTORY_SIZE: Joi.number().integer().min(0).default(3),
+		PROMPTS_DIR: Joi.string().default('data/prompts'),
+		IMAGE_HOST: Joi.string().valid('cloudflare', 's3', 'local').default('cloudflare'),
+		CLOUDFLARE_ACCOUNT_ID: Joi.string().when('IMAGE_HOST', { is: 'cloudflare', then: requiredUnlessMocked }),
+		CLOUDFLARE_API_TOKEN: Joi.string().when('IMAGE_HOST', { is: 'cloudflare', then: requiredUnlessMocked }),
+		CLOUDFLARE_IMAGES_URL: Joi.string().uri().when('IMAGE_HOST', { is: 'cloudflare', then: requiredUnlessMocked }),
 		CLOUDFLARE_AI_GATEWAY: Joi.string().uri().optional(),
-		DATABASE_URL: Joi.string().uri(),
+		DATABASE_URL: Joi.string().uri().default('file:data/sweat.db'),
+		HTTP_PORT: Joi.number().port().optional(),
+		STORAGE_BACKEND: Joi.string().valid('file', 'sqlite', 'memory').default('file'),
+		IMAGE_PROVIDER: Joi.string().valid('dall-e-3', 'openai', 'local').default('dall-e-3'),
+		IMAGE_PROVIDER_CHANNELS: Joi.string().optional(),
+		OPENAI_IMAGE_MODEL: Joi.string().default('gpt-image-1'),
+		LOCAL_IMAGE_API_URL: Joi.string().uri().optional(),
+		S3_BUCKET: Joi.string().when('IMAGE_HOST', { is: 's3', then: requiredUnlessMocked }),
+		S3_PUBLIC_URL: Joi.string().uri().when('IMAGE_HOST', { is: 's3', then: requiredUnlessMocked }),
+		S3_REGION: Joi.string().optional(),
+		S3_ENDPOINT: Joi.string().uri().optional(),
+		S3_ACCESS_KEY_ID: Joi.string().optional(),
+		S3_SECRET_ACCESS_KEY: Joi.string().optional(),
+		LOCAL_IMAGES_DIR: Joi.string().default('data/images'),
+		LOCAL_IMAGES_URL: Joi.string().uri().optional(),
+		MODERATION: Joi.string()
+			.pattern(/^(none|(openai|keywords)(,(openai|keywords))*)$/)
+			.default('openai,keywords'),
+		MODERATION_KEYWORDS: Joi.string().optional(),
+		PRICE_TABLE: Joi.string().optional(),
+		BUDGET_DAILY: Joi.number().min(0).optional(),
+		BUDGET_MONTHLY: Joi.number().min(0).optional(),
+		BUDGET_CHANNELS: Joi.string().optional(),
+		BUDGET_EXCEEDED_ACTION: Joi.string().valid('defer', 'skip').default('skip'),
+		GIFT_BATCH_WINDOW_SECONDS: Joi.number().min(0).default(10),
+		GIFT_BATCH_MODE: Joi.string().valid('group', 'reduced').default('group'),
+		GIFT_BATCH_MAX_RECIPIENTS: Joi.number().integer().min(0).default(5),
+		GENERATION_RULES_FILE: Joi.string().default('data/generation-rules.json'),
+		COMMAND_ROLES: Joi.string().optional(),
+		TRIGGERS_FILE: Joi.string().default('data/triggers.json'),
+		BROADCASTER_TOKENS_DIR: Joi.string().default('data/broadcaster-tokens'),
+		EVENTSUB_URL: Joi.string().uri().optional(),
 	})
 	.unknown();
 
@@ -37,16 +79,49 @@ export const env = envVars as {
 	TWITCH_ACCESS_TOKEN: string;
 	TWITCH_REFRESH_TOKEN: string;
 	TWITCH_ADMINS: string;
-	OPENAI_API_KEY: string;
+	MOCK_MODE: boolean;
+	OPENAI_API_KEY?: string;
 	OPENAI_IMAGES_PER_MINUTE: number;
 	OPENAI_MODEL: string;
 	DISCORD_BOT_TOKEN: string;
 	DISCORD_CHANNELS: string;
 	DISCORD_ADMIN_USER_ID: string;
 	MAX_RETRIES: number;
-	CLOUDFLARE_ACCOUNT_ID: string;
-	CLOUDFLARE_API_TOKEN: string;
-	CLOUDFLARE_IMAGES_URL: string;
+	STYLE_HISTORY_SIZE: number;
+	PROMPTS_DIR: string;
+	IMAGE_HOST: ImageHostName;
+	CLOUDFLARE_ACCOUNT_ID?: string;
+	CLOUDFLARE_API_TOKEN?: string;
+	CLOUDFLARE_IMAGES_URL?: string;
 	CLOUDFLARE_AI_GATEWAY?: string;
 	DATABASE_URL: string;
+	HTTP_PORT?: number;
+	STORAGE_BACKEND: StorageBackendName;
+	IMAGE_PROVIDER: ImageProviderName;
+	IMAGE_PROVIDER_CHANNELS?: string;
+	OPENAI_IMAGE_MODEL: string;
+	LOCAL_IMAGE_API_URL?: string;
+	S3_BUCKET?: string;
+	S3_PUBLIC_URL?: string;
+	S3_REGION?: string;
+	S3_ENDPOINT?: string;
+	S3_ACCESS_KEY_ID?: string;
+	S3_SECRET_ACCESS_KEY?: string;
+	LOCAL_IMAGES_DIR: string;
+	LOCAL_IMAGES_URL?: string;
+	MODERATION: string;
+	MODERATION_KEYWORDS?: string;
+	PRICE_TABLE?: string;
+	BUDGET_DAILY?: number;
+	BUDGET_MONTHLY?: number;
+	BUDGET_CHANNELS?: string;
+	BUDGET_EXCEEDED_ACTION: 'defer' | 'skip';
+	GIFT_BATCH_WINDOW_SECONDS: number;
+	GIFT_BATCH_MODE: GiftBatchMode;
+	GIFT_BATCH_MAX_RECIPIENTS: number;
+	GENERATION_RULES_FILE: string;
+	COMMAND_ROLES?: string;
+	TRIGGERS_FILE: string;
+	BROADCASTER_TOKENS_DIR: string;
+	EVENTSUB_URL?: string;
 };
@@ -0,0 +1,36 @@
+export type CheerEvent = {
+	broadcasterName: string;
+	userName: string | null;
+	userDisplayName: string | null;
+	bits: number;
+};
+
+export type RaidEvent = {
+	broadcasterName: string;
+	raiderName: string;
+	raiderDisplayName: string;
+	viewers: number;
+};
+
+export type RedemptionEvent = {
+	broadcasterName: string;
+	userName: string;
+	userDisplayName: string;
+	rewardId: string;
+	rewardTitle: string;
+};
+
+export type ChannelEventHandlers = {
+	onCheer?: (event: CheerEvent) => void;
+	onRaid?: (event: RaidEvent) => void;
+	onRedemption?: (event: RedemptionEvent) => void;
+};
+
+/**
+ * Channel events beyond chat, delivered by Twitch EventSub or by a local stand-in.
+ */
+export interface ChannelEventSource {
+	subscribe(broadcasterId: string, handlers: ChannelEventHandlers): void;
+	start(): void;
+	stop(): void;
+}
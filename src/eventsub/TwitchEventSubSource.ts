@@ -0,0 +1,59 @@
+import { ApiClient } from '@twurple/api';
+import { EventSubWsListener } from '@twurple/eventsub-ws';
+import { ChannelEventHandlers, ChannelEventSource } from './ChannelEventSource';
+
+/**
+ * Receives channel events over an EventSub WebSocket. The broadcaster must have authorised the app with
+ * `bits:read` and `channel:read:redemptions`, and their token must be known to the auth provider.
+ * A different url connects to a local server instead, e.g. the one of the Twitch CLI.
+ */
+export class TwitchEventSubSource implements ChannelEventSource {
+	private readonly listener: EventSubWsListener;
+
+	constructor(apiClient: ApiClient, url?: string) {
+		this.listener = new EventSubWsListener({ apiClient, url });
+	}
+
+	subscribe(broadcasterId: string, handlers: ChannelEventHandlers): void {
+		const { onCheer, onRaid, onRedemption } = handlers;
+		if (onCheer) {
+			this.listener.onChannelCheer(broadcasterId, (event) =>
+				onCheer({
+					broadcasterName: event.broadcasterName,
+					userName: event.isAnonymous ? null : event.userName,
+					userDisplayName: event.isAnonymous ? null : event.userDisplayName,
+					bits: event.bits,
+				}),
+			);
+		}
+		if (onRaid) {
+			this.listener.onChannelRaidTo(broadcasterId, (event) =>
+				onRaid({
+					broadcasterName: event.raidedBroadcasterName,
+					raiderName: event.raidingBroadcasterName,
+					raiderDisplayName: event.raidingBroadcasterDisplayName,
+					viewers: event.viewers,
+				}),
+			);
+		}
+		if (onRedemption) {
+			this.listener.onChannelRedemptionAdd(broadcasterId, (event) =>
+				onRedemption({
+					broadcasterName: event.broadcasterName,
+					userName: event.userName,
+					userDisplayName: event.userDisplayName,
+					rewardId: event.rewardId,
+					rewardTitle: event.rewardTitle,
+				}),
+			);
+		}
+	}
+
+	start(): void {
+		this.listener.start();
+	}
+
+	stop(): void {
+		this.listener.stop();
+	}
+}
@@ -0,0 +1,25 @@
+import { CloudflareUploader } from '../utils/CloudflareUploader';
+import { ImageSource } from '../types/images';
+import { ImageHost } from './ImageHost';
+
+export class CloudflareImageHost implements ImageHost {
+	readonly name = 'cloudflare';
+
+	constructor(
+		private readonly uploader: CloudflareUploader,
+		private readonly imagesUrl: string,
+	) {}
+
+	async upload(image: ImageSource, metadata: Record<string, unknown> = {}): Promise<string> {
+		const uploadedImage =
+			'url' in image
+				? await this.uploader.uploadImageFromUrl(image.url, metadata)
+				: await this.uploader.uploadImageData(image.data, metadata);
+
+		if (!uploadedImage.success) {
+			throw new Error(`Image upload failed: ${uploadedImage.errors.map((error) => error.message).join(', ')}`);
+		}
+
+		return `${this.imagesUrl}/${uploadedImage.result.id}.png`;
+	}
+}
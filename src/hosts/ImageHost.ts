@@ -0,0 +1,21 @@
+import axios from 'axios';
+import { ImageSource } from '../types/images';
+
+export type ImageHostName = 'cloudflare' | 's3' | 'local';
+
+export interface ImageHost {
+	readonly name: ImageHostName;
+	/**
+	 * Stores the image permanently and returns its public url. Throws if the upload failed.
+	 */
+	upload(image: ImageSource, metadata?: Record<string, unknown>): Promise<string>;
+}
+
+export async function readImageData(image: ImageSource): Promise<Buffer> {
+	if ('data' in image) {
+		return image.data;
+	}
+
+	const response = await axios.get<ArrayBuffer>(image.url, { responseType: 'arraybuffer' });
+	return Buffer.from(response.data);
+}
@@ -0,0 +1,26 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { nanoid } from 'nanoid';
+import { ImageSource } from '../types/images';
+import { ImageHost, readImageData } from './ImageHost';
+
+/**
+ * Writes images into a local directory. The gallery server serves that directory under `/images`,
+ * any other static web server pointed at it works as well.
+ */
+export class LocalImageHost implements ImageHost {
+	readonly name = 'local';
+
+	constructor(
+		readonly imagesDir: string,
+		private readonly publicUrl: string,
+	) {}
+
+	async upload(image: ImageSource): Promise<string> {
+		const fileName = `${nanoid(10)}.png`;
+		await fs.mkdir(this.imagesDir, { recursive: true });
+		await fs.writeFile(path.join(this.imagesDir, fileName), await readImageData(image));
+
+		return `${this.publicUrl.replace(/\/$/, '')}/${fileName}`;
+	}
+}
@@ -0,0 +1,54 @@
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { nanoid } from 'nanoid';
+import { ImageSource } from '../types/images';
+import { ImageHost, readImageData } from './ImageHost';
+
+export type S3ImageHostOptions = {
+	bucket: string;
+	publicUrl: string;
+	region?: string;
+	endpoint?: string;
+	accessKeyId?: string;
+	secretAccessKey?: string;
+	prefix?: string;
+};
+
+/**
+ * Uploads to AWS S3 or any S3-compatible store such as R2, MinIO or Backblaze B2.
+ * `publicUrl` is where the bucket is served from, e.g. a CDN or the bucket's public endpoint.
+ */
+export class S3ImageHost implements ImageHost {
+	readonly name = 's3';
+	private readonly client: S3Client;
+
+	constructor(private readonly options: S3ImageHostOptions) {
+		this.client = new S3Client({
+			region: options.region ?? 'auto',
+			endpoint: options.endpoint,
+			// Most self-hosted stores do not support bucket subdomains.
+			forcePathStyle: Boolean(options.endpoint),
+			credentials:
+				options.accessKeyId && options.secretAccessKey
+					? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+					: undefined,
+		});
+	}
+
+	async upload(image: ImageSource, metadata: Record<string, unknown> = {}): Promise<string> {
+		const key = `${this.options.prefix ?? ''}${nanoid(10)}.png`;
+		await this.client.send(
+			new PutObjectCommand({
+				Bucket: this.options.bucket,
+				Key: key,
+				Body: await readImageData(image),
+				ContentType: 'image/png',
+				// Object metadata travels as HTTP headers, which only allow ASCII.
+				Metadata: Object.fromEntries(
+					Object.entries(metadata).map(([name, value]) => [name, encodeURIComponent(String(value))]),
+				),
+			}),
+		);
+
+		return `${this.options.publicUrl.replace(/\/$/, '')}/${key}`;
+	}
+}
@@ -0,0 +1,35 @@
+import { CloudflareUploader } from '../utils/CloudflareUploader';
+import { CloudflareImageHost } from './CloudflareImageHost';
+import { ImageHost, ImageHostName } from './ImageHost';
+import { LocalImageHost } from './LocalImageHost';
+import { S3ImageHost, S3ImageHostOptions } from './S3ImageHost';
+
+export type ImageHostConfig = {
+	host: ImageHostName;
+	cloudflare?: { accountId: string; apiToken: string; imagesUrl: string };
+	s3?: S3ImageHostOptions;
+	local?: { imagesDir: string; publicUrl: string };
+};
+
+export function createImageHost(config: ImageHostConfig): ImageHost {
+	switch (config.host) {
+		case 'cloudflare':
+			if (!config.cloudflare) {
+				throw new Error('Cloudflare image host selected without Cloudflare credentials.');
+			}
+			return new CloudflareImageHost(
+				new CloudflareUploader(config.cloudflare.accountId, config.cloudflare.apiToken),
+				config.cloudflare.imagesUrl,
+			);
+		case 's3':
+			if (!config.s3) {
+				throw new Error('S3 image host selected without a bucket.');
+			}
+			return new S3ImageHost(config.s3);
+		case 'local':
+			if (!config.local) {
+				throw new Error('Local image host selected without an images directory.');
+			}
+			return new LocalImageHost(config.local.imagesDir, config.local.publicUrl);
+	}
+}
@@ -1,16 +1,40 @@
 import 'dotenv/config';
 import * as path from 'path';
 import { promises as fs } from 'fs';
+import { pathToFileURL } from 'url';
 import { env } from './env';
 import OpenAI from 'openai';
 import { AccessToken, InvalidTokenError, RefreshingAuthProvider } from '@twurple/auth';
-import { Bot, createBotCommand } from '@twurple/easy-bot';
-import { ActivityType, Client as DiscordClient, Events, GatewayIntentBits, Partials, TextChannel } from 'discord.js';
+import { ApiClient } from '@twurple/api';
+import { Bot, BotCommandContext, createBotCommand } from '@twurple/easy-bot';
+import {
+	ActionRowBuilder,
+	ActivityType,
+	AttachmentBuilder,
+	ButtonBuilder,
+	ButtonStyle,
+	Client as DiscordClient,
+	Events,
+	GatewayIntentBits,
+	Partials,
+	TextChannel,
+} from 'discord.js';
 import throttledQueue from 'throttled-queue';
 import { IgnoreListManager } from './managers/IgnoreListManager';
-import { CloudflareUploader } from './utils/CloudflareUploader';
 import { OpenAIManager } from './utils/OpenAIManager';
+import { ImageProviderRegistry, parseChannelProviders } from './providers/ImageProviderRegistry';
+import { GeneratedImage } from './providers/ImageProvider';
+import { DallE3ImageProvider } from './providers/DallE3ImageProvider';
+import { OpenAIImageProvider } from './providers/OpenAIImageProvider';
+import { HttpImageProvider } from './providers/HttpImageProvider';
+import { createImageHost } from './hosts/createImageHost';
+import { MockOpenAIManager } from './mock/MockOpenAIManager';
+import { createModerator, parseModerationClassifiers } from './moderation/createModerator';
+import { parseKeywordRules } from './moderation/KeywordModerationClassifier';
+import { mergeVerdicts, ModerationVerdict } from './moderation/Moderator';
+import { ApprovalOutcome, awaitApproval, holdForApproval } from './moderation/holdForApproval';
 import { nanoid } from 'nanoid';
+import axios from 'axios';
 import {
 	MAX_RETRIES,
 	MESSAGE_THROTTLE_LIMIT,
@@ -19,52 +43,87 @@ import {
 	OPENAI_THROTTLE_INTERVAL_MS,
 	DALLE_THROTTLE_LIMIT,
 	DALLE_THROTTLE_INTERVAL_MS,
+	STYLE_HISTORY_SIZE,
+	DEFERRED_JOBS_INTERVAL_MS,
 } from './constants/config';
-import { DALLE_IMAGE_PROMPT_TEMPLATE } from './constants/prompts';
-import { DALLE_TEMPLATES, DalleTemplate } from './constants/styles';
+import { parsePriceTable } from './constants/prices';
+import { parseCommandRoles } from './constants/permissions';
+import { DEFAULT_MESSAGES, isMessageKey, MESSAGE_PLACEHOLDERS, MessageValues } from './constants/messages';
+import { DalleTemplate } from './constants/styles';
 import { ThemeManager } from './managers/ThemeManager';
 import { MeaningManager } from './managers/MeaningManager';
 import { BannedGifterManager } from './managers/BannedGifterManager';
+import { PermissionManager } from './managers/PermissionManager';
+import { ChannelSettingsManager } from './managers/ChannelSettingsManager';
+import { StyleManager } from './managers/StyleManager';
+import { getPromptVersion, PromptManager } from './managers/PromptManager';
+import { AnalysisCache } from './managers/AnalysisCache';
+import { parseChannelBudgets, SpendTracker } from './managers/SpendTracker';
+import { GiftBatcher, planGiftBatch } from './managers/GiftBatcher';
+import { GenerationRuleManager } from './managers/GenerationRuleManager';
+import { ChannelTriggerManager } from './managers/ChannelTriggerManager';
+import { TwitchEventSubSource } from './eventsub/TwitchEventSubSource';
+import { SCENE_FROM_ANALYSIS_PROMPT } from './constants/prompts';
 import { ImageDataStore } from './managers/ImageDataStore';
+import { BackupManager } from './managers/BackupManager';
 import {
-	isAdminOrBroadcaster,
 	ensureFileExists,
 	getAppRootDir,
 	exists,
 	retryAsyncOperation,
 	truncate,
 	createSystemPrompt,
+	parseStoredAnalysis,
+	StructuredOutput,
 } from './utils/helpers';
-import { finalSchema } from './schemas/imageSchemas';
-
-type SingleImage = {
-	image: string;
-	analysis: string;
-	revisedPrompt: string;
-	date: string;
-};
+import { finalSchema, sceneSchema } from './schemas/imageSchemas';
+import { openDatabase, resolveDatabasePath } from './utils/database';
+import { GenerationJobQueue } from './managers/GenerationJobQueue';
+import { EventData } from './types/events';
+import { GenerationJob, GenerationJobResult, GenerationStage } from './types/jobs';
+import { GalleryServer } from './server/GalleryServer';
+import { readJsonFile, writeJsonFile } from './utils/persistence';
+import { runMigrations } from './migrations/runMigrations';
+import { DATA_FILE_NAMES } from './migrations/migrations';
+import { JsonFileStorage } from './storage/JsonFileStorage';
+import { createStorage } from './storage/createStorage';
+import { DataFileWatcher } from './utils/DataFileWatcher';
+import {
+	bannedGiftersFileSchema,
+	trustedFileSchema,
+	settingsFileSchema,
+	ignoreFileSchema,
+	meaningsFileSchema,
+	stylesFileSchema,
+	themesFileSchema,
+} from './schemas/dataFileSchemas';
+import { GenerationMetadata, SingleImage, StoredImage, withGenerationDefaults } from './types/images';
 
 type ImageGenerationSuccess = {
 	success: true;
 	message: string;
 	analysis: string;
 	revisedPrompt: string;
+	metadata: GenerationMetadata;
+	moderation: ModerationVerdict;
 };
 
-type ImageGenerationError = {
-	success: false;
-	message: string;
-};
+// A reason is set when the generation was stopped on purpose instead of failing.
+type ImageGenerationError =
+	| {
+			success: false;
+			message: string;
+			reason?: 'flagged';
+	  }
+	| {
+			success: false;
+			message: string;
+			reason: 'budget';
+			exceeded: 'daily' | 'monthly';
+	  };
 
 type ImageGenerationResult = ImageGenerationSuccess | ImageGenerationError;
 
-interface EventData {
-	broadcasterName: string;
-	userName: string;
-	userDisplayName: string;
-	isGifting?: boolean;
-}
-
 const testGenerationState = {
 	isRunning: false,
 	shouldCancel: false,
@@ -76,31 +135,41 @@ async function generateImage(
 	metadata: Record<string, unknown> = {},
 	theme: string | undefined,
 	style: string | null = null,
+	onStage?: (stage: GenerationStage) => void,
+	previousOutput?: StructuredOutput,
 ): Promise<ImageGenerationResult> {
 	const uniqueId = nanoid(14);
+	const startTime = Date.now();
 
-	let template: DalleTemplate | undefined;
-	if (style) {
-		template = DALLE_TEMPLATES.find((t) => t.keyword.toLowerCase() === style!.toLowerCase());
-	}
-	if (!template) {
-		const templateIndex = Math.floor(Math.random() * DALLE_TEMPLATES.length);
-		template = DALLE_TEMPLATES[templateIndex] as DalleTemplate;
-		style = template.keyword.toLowerCase();
+	const channel = String(metadata.channel ?? '');
+	const budgetError = getBudgetError(channel);
+	if (budgetError) {
+		return budgetError;
 	}
 
+	const generationOptions = getGenerationOptions(channel, metadata);
+	const template = await resolveStyle(channel, username, metadata, style);
+	style = template.keyword.toLowerCase();
+
 	const userMeaning = meaningManager.getUserMeaning(username.toLowerCase());
+	const recipients = (metadata.recipients as string[] | undefined) ?? [];
+	const groupScene = recipients.length
+		? `\nGifted ${metadata.giftCount} subs to the community. Show them in one group scene with some of the recipients: ${recipients.join(', ')}`
+		: '';
 	const queryMessage =
-		userMeaning !== username
+		(userMeaning !== username
 			? `Literal username: ${userDisplayName}\nIntended meaning: ${userMeaning}`
-			: `Username: ${userDisplayName}`;
+			: `Username: ${userDisplayName}`) + groupScene;
+
+	const promptSet = promptManager.getPromptSet(channel);
+	const promptVersion = getPromptVersion(promptSet);
 
-	console.log(`[${uniqueId}]`, userMeaning, `Using template: ${template.name}`);
+	console.log(`[${uniqueId}]`, userMeaning, `Using template: ${template.name}, prompts: ${promptVersion}`);
 
 	const structuredAnalysisMessages: OpenAI.ChatCompletionMessageParam[] = [
 		{
 			role: 'system',
-			content: createSystemPrompt(new Date().toISOString().slice(0, 10), theme),
+			content: createSystemPrompt(new Date().toISOString().slice(0, 10), theme, promptSet),
 		},
 		{
 			role: 'user',
@@ -108,36 +177,108 @@ async function generateImage(
 		},
 	];
 
-	let structuredOutput = await openaiThrottle(() => {
-		console.log(`[${uniqueId}]`, userMeaning, `Requesting structured output (Theme: ${theme ?? 'None'})`);
-		return openAIManager.getChatCompletion(structuredAnalysisMessages, {
-			length: 700,
-			schema: finalSchema,
-			schemaName: 'finalSchema',
+	onStage?.('analysing');
+	const analysisStart = Date.now();
+	const cachedAnalysis = previousOutput ? undefined : analysisCache.get(username, userMeaning, promptVersion);
+	let structuredOutput: StructuredOutput;
+	if (previousOutput) {
+		console.log(`[${uniqueId}]`, userMeaning, 'Reusing previous analysis and scene');
+		structuredOutput = structuredClone(previousOutput);
+	} else if (cachedAnalysis) {
+		const scene = await openaiThrottle(() => {
+			console.log(
+				`[${uniqueId}]`,
+				userMeaning,
+				`Reusing cached analysis, requesting scene (Theme: ${theme ?? 'None'})`,
+			);
+			return openAIManager.getChatCompletion(
+				[
+					...structuredAnalysisMessages,
+					{
+						role: 'user',
+						content: SCENE_FROM_ANALYSIS_PROMPT.replace('__ANALYSIS__', JSON.stringify(cachedAnalysis, null, 2)),
+					},
+				],
+				{
+					length: 500,
+					schema: sceneSchema,
+					schemaName: 'sceneSchema',
+				},
+			);
 		});
-	});
+		spendTracker.record(channel, 'chat', openAIManager.getModel());
+		structuredOutput = { step1: cachedAnalysis, step2: scene };
+	} else {
+		structuredOutput = await openaiThrottle(() => {
+			console.log(`[${uniqueId}]`, userMeaning, `Requesting structured output (Theme: ${theme ?? 'None'})`);
+			return openAIManager.getChatCompletion(structuredAnalysisMessages, {
+				length: 700,
+				schema: finalSchema,
+				schemaName: 'finalSchema',
+			});
+		});
+		spendTracker.record(channel, 'chat', openAIManager.getModel());
+		analysisCache.set(username, userMeaning, promptVersion, structuredOutput.step1);
+	}
 
 	const analysisResult = `Literal username: ${userDisplayName}\n${JSON.stringify(structuredOutput, null, 2)}`;
+	const analysisVerdict = await moderator.check('analysis', [userDisplayName, userMeaning, analysisResult]);
+	// The image of a flagged analysis would not be posted anyway, so it is not worth paying for.
+	if (analysisVerdict.flagged) {
+		console.log(`[${uniqueId}]`, userMeaning, `Analysis flagged by moderation: ${analysisVerdict.reasons.join('; ')}`);
+		return {
+			success: false,
+			message: `Flagged by moderation: ${analysisVerdict.reasons.join('; ')}`,
+			reason: 'flagged',
+		};
+	}
 
 	Object.assign(structuredOutput.step2, { style: template.description });
 	Object.assign(structuredOutput.step2, { style_description: template.name });
+	if (generationOptions.flavors.length) {
+		Object.assign(structuredOutput.step2, { special_occasion: generationOptions.flavors.join(' ') });
+	}
 
 	const imagePrompt = JSON.stringify(structuredOutput.step2);
 
-	const image = await dalleThrottle(() => {
-		console.log(`[${uniqueId}]`, userMeaning, `Creating image.`);
-		return openAIManager.generateImage({
-			model: 'dall-e-3',
-			prompt: DALLE_IMAGE_PROMPT_TEMPLATE.replace('__DATA__', imagePrompt),
-			quality: 'standard',
-			size: '1024x1024',
-			response_format: 'url',
+	const analysisMs = Date.now() - analysisStart;
+
+	const imageProvider = imageProviders.getProvider(channel);
+
+	// The analysis may have used up the budget, and the image is the expensive part.
+	const imageBudgetError = getBudgetError(channel);
+	if (imageBudgetError) {
+		return imageBudgetError;
+	}
+
+	// Reserved right after the check, so that images generated at the same time cannot all pass it.
+	const releaseReservation = spendTracker.reserve(channel, imageProvider.model, generationOptions.image);
+
+	onStage?.('generating');
+	const generationStart = Date.now();
+	let image: GeneratedImage;
+	try {
+		image = await dalleThrottle(() => {
+			console.log(`[${uniqueId}]`, userMeaning, `Creating image with ${imageProvider.model}.`);
+			return imageProvider.generateImage(
+				promptSet.imagePromptTemplate.replace('__DATA__', imagePrompt),
+				generationOptions.image,
+			);
 		});
-	});
+		spendTracker.record(channel, 'image', imageProvider.model, generationOptions.image);
+	} finally {
+		releaseReservation();
+	}
+
+	const generationMs = Date.now() - generationStart;
 
 	console.log(`[${uniqueId}]`, userMeaning, 'Uploading image');
-	console.log(`[${uniqueId}]`, userMeaning, 'Revised prompt', image.data[0].revised_prompt);
-	const url = image.data[0].url!;
+	console.log(`[${uniqueId}]`, userMeaning, 'Revised prompt', image.revisedPrompt);
+
+	const moderation = mergeVerdicts(analysisVerdict, await moderator.check('image', [image.revisedPrompt]));
+	if (moderation.flagged) {
+		console.log(`[${uniqueId}]`, userMeaning, `Flagged by moderation: ${moderation.reasons.join('; ')}`);
+	}
 
 	const updatedMetadata = {
 		...metadata,
@@ -145,22 +286,230 @@ async function generateImage(
 		style: style,
 	};
 
-	const uploadedImage = await cfUploader.uploadImageFromUrl(url, updatedMetadata);
-
-	if (!uploadedImage.success) {
-		console.log(`[${uniqueId}]`, userMeaning, `Image upload failed: ${uploadedImage.errors}`);
+	onStage?.('uploading');
+	const uploadStart = Date.now();
+	let finalUrl: string;
+	try {
+		finalUrl = await imageHost.upload(image, updatedMetadata);
+	} catch (error) {
+		console.log(`[${uniqueId}]`, userMeaning, `Image upload to ${imageHost.name} failed`, error);
 		return { success: false, message: 'Error' };
 	}
+	const uploadMs = Date.now() - uploadStart;
 
-	const finalUrl = `${env.CLOUDFLARE_IMAGES_URL}/${uploadedImage.result.id}.png`;
 	console.log(`[${uniqueId}]`, userMeaning, `Image uploaded: ${finalUrl}`);
 
 	return {
 		success: true,
 		message: finalUrl,
 		analysis: analysisResult,
-		revisedPrompt: image.data[0].revised_prompt!,
+		revisedPrompt: image.revisedPrompt,
+		metadata: {
+			style: template.keyword,
+			theme: theme ?? '',
+			trigger: String(metadata.trigger ?? ''),
+			source: String(metadata.source ?? ''),
+			chatModel: openAIManager.getModel(),
+			imageModel: imageProvider.model,
+			promptVersion,
+			retries: 0,
+			timings: { analysisMs, generationMs, uploadMs, totalMs: Date.now() - startTime },
+		},
+		moderation,
+	};
+}
+
+function getGenerationOptions(channel: string, metadata: Record<string, unknown>) {
+	return generationRuleManager.getOptions(channel, {
+		plan: metadata.plan as string | undefined,
+		months: metadata.months as number | undefined,
+		streak: metadata.streak as number | undefined,
+	});
+}
+
+/**
+ * Returns the requested style if the channel may use it, else picks one from the channel's styles.
+ */
+async function resolveStyle(
+	channel: string,
+	username: string,
+	metadata: Record<string, unknown>,
+	style: string | null,
+): Promise<DalleTemplate> {
+	const requested = style && styleManager.isStyleAvailable(channel, style) ? styleManager.getStyle(style) : undefined;
+	if (requested) {
+		return requested;
+	}
+
+	const recentImages = await imageDataStore.getImages({
+		broadcaster: channel,
+		user: username,
+		limit: STYLE_HISTORY_SIZE,
+	});
+	const template = await styleManager.pickStyle(
+		channel,
+		recentImages.map((image) => image.style),
+		getGenerationOptions(channel, metadata).styles,
+	);
+	if (!template) {
+		throw new Error(`No styles available for channel ${channel}`);
+	}
+	return template;
+}
+
+function getBudgetError(broadcasterName: string): ImageGenerationError | undefined {
+	const { exceeded } = spendTracker.getBudgetStatus(broadcasterName);
+	if (exceeded) {
+		return {
+			success: false,
+			message: `The ${exceeded} budget of ${broadcasterName} is used up.`,
+			reason: 'budget',
+			exceeded,
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Runs generateImage with retries and records how many retries the successful attempt needed.
+ */
+async function generateImageWithRetries(...args: Parameters<typeof generateImage>): Promise<ImageGenerationResult> {
+	// The style is picked once for all attempts, a rotation would otherwise move on with every failed attempt.
+	const [username, , metadata = {}, , style = null] = args;
+	args[4] = (await resolveStyle(String(metadata.channel ?? ''), username, metadata, style)).keyword.toLowerCase();
+
+	let attempts = 0;
+	const result = await retryAsyncOperation(
+		(...attemptArgs: Parameters<typeof generateImage>) => {
+			attempts++;
+			return generateImage(...attemptArgs);
+		},
+		MAX_RETRIES,
+		...args,
+	);
+
+	if (result.success) {
+		result.metadata.retries = attempts - 1;
+	}
+
+	return result;
+}
+
+function toJobResult(imageResult: ImageGenerationSuccess): GenerationJobResult {
+	return {
+		image: imageResult.message,
+		analysis: imageResult.analysis,
+		revisedPrompt: imageResult.revisedPrompt,
+		metadata: imageResult.metadata,
+		moderation: imageResult.moderation,
+	};
+}
+
+/**
+ * Sends a flagged sweatling requested with a command to the Discord admin instead of posting it.
+ * Returns `admitted` if it may be posted right away.
+ */
+function admitForPosting(
+	discordBot: DiscordClient,
+	eventData: EventData,
+	imageResult: ImageGenerationSuccess,
+): Promise<ApprovalOutcome> {
+	return holdForApproval(jobQueue, eventData, toJobResult(imageResult), (job, result) =>
+		requestApproval(discordBot, job, result),
+	);
+}
+
+function describeHeldBack(outcome: ApprovalOutcome): string {
+	return outcome === 'failed'
+		? 'was flagged and could not be sent for approval'
+		: 'was flagged and is waiting for approval';
+}
+
+function toSingleImage(imageResult: ImageGenerationSuccess): SingleImage {
+	return {
+		image: imageResult.message,
+		analysis: imageResult.analysis,
+		revisedPrompt: imageResult.revisedPrompt,
+		date: new Date().toISOString(),
+		...imageResult.metadata,
+	};
+}
+
+type RerollResult = { success: true; image: ImageGenerationSuccess; replaced: StoredImage } | ImageGenerationError;
+
+/**
+ * Renders the user's most recent sweatling in the channel again, from the same analysis and scene but in another style.
+ * A flagged reroll goes to the Discord admin and replaces the previous image once approved.
+ */
+async function rerollImage(
+	discordBot: DiscordClient,
+	broadcasterName: string,
+	user: string,
+	source: 'twitch' | 'discord',
+	requestedBy: string,
+	style: string | null,
+): Promise<RerollResult> {
+	const previous = await imageDataStore.getLatestUserImage(broadcasterName, user);
+	if (!previous) {
+		return { success: false, message: `${user} has no sweatlings in this channel yet.` };
+	}
+
+	const previousOutput = parseStoredAnalysis(previous.analysis);
+	if (!previousOutput) {
+		return { success: false, message: `The last sweatling of ${user} has no stored scene to reroll.` };
+	}
+
+	if (style && !styleManager.isStyleAvailable(broadcasterName, style)) {
+		return { success: false, message: `Style ${style} is not available in this channel.` };
+	}
+	if (!style) {
+		const recentImages = await imageDataStore.getImages({
+			broadcaster: broadcasterName,
+			user,
+			limit: STYLE_HISTORY_SIZE,
+		});
+		const template = await styleManager.pickStyle(broadcasterName, [
+			previous.style,
+			...recentImages.map((image) => image.style),
+		]);
+		style = template?.keyword ?? null;
+	}
+
+	const metadata = { source, channel: broadcasterName, target: user, trigger: 'reroll' };
+	let imageResult: ImageGenerationResult;
+	try {
+		imageResult = await generateImageWithRetries(
+			user.toLowerCase(),
+			user,
+			metadata,
+			previous.theme || undefined,
+			style,
+			undefined,
+			previousOutput,
+		);
+	} catch (error) {
+		console.log(`Error rerolling image for ${user}`, error);
+		imageResult = { success: false, message: `Unable to reroll the sweatling of ${user}.` };
+	}
+	if (!imageResult.success) {
+		return imageResult;
+	}
+	const eventData: EventData = {
+		broadcasterName,
+		userName: user,
+		userDisplayName: user,
+		trigger: 'reroll',
+		requestedBy,
+		source,
+		replaces: previous.id,
 	};
+	const outcome = await admitForPosting(discordBot, eventData, imageResult);
+	if (outcome !== 'admitted') {
+		return { success: false, message: `The reroll of ${user} ${describeHeldBack(outcome)}.` };
+	}
+
+	await imageDataStore.storeImageData(broadcasterName, user, { ...toSingleImage(imageResult), replaces: previous.id });
+	return { success: true, image: imageResult, replaced: previous };
 }
 
 async function handleEventAndSendImageMessage(
@@ -168,39 +517,362 @@ async function handleEventAndSendImageMessage(
 	discordBot: DiscordClient,
 	eventData: EventData,
 ): Promise<void> {
-	const { broadcasterName, userName, userDisplayName, isGifting = false } = eventData;
+	if (ignoreListManager.isUserIgnored(eventData.userName.toLowerCase())) {
+		console.log(`User ${eventData.userName} is ignored, not generating image`);
+		return;
+	}
+
+	const job = jobQueue.enqueue(eventData);
+	await processGenerationJob(twitchBot, discordBot, job);
+}
+
+/**
+ * Picks up the jobs of a channel that did not finish, or with `deferredOnly` just those waiting for the budget.
+ */
+async function resumeGenerationJobs(
+	twitchBot: Bot,
+	discordBot: DiscordClient,
+	broadcasterName: string,
+	deferredOnly = false,
+): Promise<void> {
+	// Deferred jobs stay put until the budget allows them again.
+	const { exceeded } = spendTracker.getBudgetStatus(broadcasterName);
+	const jobs = jobQueue
+		.getUnfinishedJobs(broadcasterName)
+		.filter((job) => (job.state === 'deferred' ? !exceeded : !deferredOnly));
+	if (jobs.length === 0) {
+		return;
+	}
 
-	if (ignoreListManager.isUserIgnored(userName.toLowerCase())) {
-		console.log(`User ${userName} is ignored, not generating image`);
+	console.log(`Resuming ${jobs.length} unfinished generation job(s) for ${broadcasterName}`);
+	for (const job of jobs) {
+		if (job.attempts > MAX_RETRIES) {
+			console.log(`[${job.id}] Giving up on job for ${job.eventData.userName} after ${job.attempts} attempts`);
+			jobQueue.setState(job.id, 'failed', 'Too many attempts');
+			continue;
+		}
+		processGenerationJob(twitchBot, discordBot, job).catch((error) => {
+			console.log(`[${job.id}] Error resuming generation job`, error);
+		});
+	}
+}
+
+async function processGenerationJob(twitchBot: Bot, discordBot: DiscordClient, job: GenerationJob): Promise<void> {
+	// Waiting for the budget is no failed attempt, so deferred jobs do not run out of attempts.
+	if (!jobQueue.claim(job.id, job.state !== 'deferred')) {
 		return;
 	}
+
+	try {
+		await runGenerationJob(twitchBot, discordBot, job);
+	} catch (error) {
+		console.log(`[${job.id}] Generation job failed`, error);
+		jobQueue.setState(job.id, 'failed', error instanceof Error ? error.message : String(error));
+	} finally {
+		jobQueue.release(job.id);
+	}
+}
+
+async function runGenerationJob(twitchBot: Bot, discordBot: DiscordClient, job: GenerationJob): Promise<void> {
+	const {
+		broadcasterName,
+		userName,
+		userDisplayName,
+		isGifting = false,
+		plan,
+		months,
+		streak,
+		giftCount,
+		recipients,
+	} = job.eventData;
 	const verb = isGifting ? 'gifting' : 'subscribing';
 
-	let imageResult: ImageGenerationResult;
+	// A stored result means the image was uploaded before a restart and only the announcement is missing.
+	let result = job.result;
+	if (!result) {
+		const { exceeded } = spendTracker.getBudgetStatus(broadcasterName);
+		if (exceeded) {
+			await handleExhaustedBudget(twitchBot, discordBot, job, exceeded);
+			return;
+		}
+
+		let imageResult: ImageGenerationResult;
+		try {
+			const metadata = {
+				source: 'twitch',
+				channel: broadcasterName,
+				target: userName,
+				trigger: job.eventData.trigger ?? verb,
+				plan,
+				months,
+				streak,
+				giftCount,
+				recipients,
+			};
+			const theme = themeManager.getBroadcasterTheme(broadcasterName);
+			imageResult = await generateImageWithRetries(
+				userName,
+				userDisplayName,
+				metadata,
+				theme,
+				null,
+				(stage: GenerationStage) => jobQueue.setState(job.id, stage),
+			);
+		} catch {
+			imageResult = { success: false, message: 'Error' };
+		}
+
+		// The budget may run out while the analysis is made, the job is then handled as if it was used up before.
+		if (!imageResult.success && imageResult.reason === 'budget') {
+			await handleExhaustedBudget(twitchBot, discordBot, job, imageResult.exceeded);
+			return;
+		}
+		if (!imageResult.success && imageResult.reason === 'flagged') {
+			jobQueue.setState(job.id, 'skipped', imageResult.message);
+			await dismissFlaggedJob(twitchBot, job.eventData, 'was flagged by moderation');
+			return;
+		}
+		if (!imageResult.success) {
+			jobQueue.setState(job.id, 'failed', imageResult.message);
+			await thankInChat(twitchBot, job.eventData, 'failure');
+			return;
+		}
+
+		result = toJobResult(imageResult);
+		jobQueue.saveResult(job.id, result);
+	}
+
+	// An approved or stored image only misses its announcement.
+	if (result.moderation?.flagged && job.state !== 'approving' && job.state !== 'stored') {
+		if (!(await awaitApproval(jobQueue, job, result, () => requestApproval(discordBot, job, result)))) {
+			await dismissFlaggedJob(twitchBot, job.eventData, 'could not be sent for approval');
+		}
+		return;
+	}
+
+	await announceGenerationJob(twitchBot, discordBot, job, result);
+}
+
+/**
+ * Defers the job until the budget allows it or thanks the user without an image, depending on the configured action.
+ */
+async function handleExhaustedBudget(
+	twitchBot: Bot,
+	discordBot: DiscordClient,
+	job: GenerationJob,
+	exceeded: 'daily' | 'monthly',
+): Promise<void> {
+	const { broadcasterName } = job.eventData;
+	await notifyExhaustedBudget(discordBot, broadcasterName, exceeded);
+
+	if (env.BUDGET_EXCEEDED_ACTION === 'defer') {
+		console.log(`[${job.id}] The ${exceeded} budget of ${broadcasterName} is used up, deferring the job`);
+		jobQueue.setState(job.id, 'deferred', `The ${exceeded} budget is used up`);
+		return;
+	}
+
+	console.log(`[${job.id}] The ${exceeded} budget of ${broadcasterName} is used up, skipping the image`);
+	jobQueue.setState(job.id, 'skipped', `The ${exceeded} budget is used up`);
+	await thankInChat(twitchBot, job.eventData);
+}
+
+/**
+ * Tells the Discord admin about a used up budget, once per channel and day or month.
+ */
+async function notifyExhaustedBudget(
+	discordBot: DiscordClient,
+	broadcasterName: string,
+	exceeded: 'daily' | 'monthly',
+): Promise<void> {
+	const period = new Date().toISOString().slice(0, exceeded === 'daily' ? 10 : 7);
+	const key = `${broadcasterName}:${exceeded}:${period}`;
+	if (budgetNotifications.has(key)) {
+		return;
+	}
+	budgetNotifications.add(key);
+
+	const { daily, monthly, caps } = spendTracker.getBudgetStatus(broadcasterName);
+	const spent = exceeded === 'daily' ? daily : monthly;
+	const action = env.BUDGET_EXCEEDED_ACTION === 'defer' ? 'deferred' : 'sent without an image';
 	try {
-		const metadata = { source: 'twitch', channel: broadcasterName, target: userName, trigger: verb };
-		const theme = themeManager.getBroadcasterTheme(broadcasterName);
-		imageResult = await retryAsyncOperation(generateImage, MAX_RETRIES, userName, userDisplayName, metadata, theme);
+		const admin = await discordBot.users.fetch(discordAdmin);
+		await admin.send(
+			`The ${exceeded} budget of ${broadcasterName} is used up ($${spent.toFixed(2)} of $${caps[exceeded]!.toFixed(2)}). Sweatlings are ${action} for now.`,
+		);
 	} catch (error) {
-		imageResult = { success: false, message: 'Error' };
+		console.log(`Error notifying about the budget of ${broadcasterName}`, error);
 	}
+}
 
-	if (!imageResult.success) {
+/**
+ * Sends a flagged sweatling to the Discord admin, who approves or rejects it with the buttons below the message.
+ * Returns false if the message could not be sent.
+ */
+async function requestApproval(
+	discordBot: DiscordClient,
+	job: GenerationJob,
+	result: GenerationJobResult,
+): Promise<boolean> {
+	const { broadcasterName, userName } = job.eventData;
+	const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+		new ButtonBuilder().setCustomId(`approve:${job.id}`).setLabel('Approve').setStyle(ButtonStyle.Success),
+		new ButtonBuilder().setCustomId(`reject:${job.id}`).setLabel('Reject').setStyle(ButtonStyle.Danger),
+	);
+
+	try {
+		const admin = await discordBot.users.fetch(discordAdmin);
+		await admin.send({
+			content: `The sweatling of \`${userName}\` in ${broadcasterName} was flagged: ${result.moderation?.reasons.join('; ')}\n${result.image}`,
+			components: [row],
+		});
+		return true;
+	} catch (error) {
+		console.log(`[${job.id}] Error requesting approval`, error);
+		return false;
+	}
+}
+
+/**
+ * Announces an approved sweatling, or thanks the user without it when rejected.
+ * Returns false if the job is not waiting for approval, e.g. because another click already resolved it.
+ */
+async function resolveApproval(
+	twitchBot: Bot,
+	discordBot: DiscordClient,
+	jobId: string,
+	approved: boolean,
+): Promise<boolean> {
+	// The job leaves `awaiting_approval` before anything is posted, so it is resolved only once.
+	if (!jobQueue.transition(jobId, 'awaiting_approval', approved ? 'approving' : 'rejected')) {
+		return false;
+	}
+
+	const job = jobQueue.getJob(jobId)!;
+	if (approved) {
+		await processGenerationJob(twitchBot, discordBot, job);
+	} else {
+		await dismissFlaggedJob(twitchBot, job.eventData, 'was not approved');
+	}
+	return true;
+}
+
+/**
+ * Thanks the user without the flagged sweatling, or tells whoever requested it with a command why it is not posted.
+ */
+async function dismissFlaggedJob(twitchBot: Bot, eventData: EventData, reason: string): Promise<void> {
+	const { broadcasterName, userName, requestedBy, source } = eventData;
+	if (!requestedBy) {
+		await thankInChat(twitchBot, eventData);
+	} else if (source === 'twitch') {
+		await messagesThrottle(() => {
+			return twitchBot.say(broadcasterName, `@${requestedBy} The sweatling of @${userName} ${reason}.`);
+		});
+	}
+}
+
+/**
+ * Describes what the user is thanked for, naming the recipients of a community gift.
+ */
+function describeEvent({ isGifting, giftCount = 0, recipients = [], ...eventData }: EventData): string {
+	switch (eventData.trigger) {
+		case 'cheer':
+			return `cheering ${eventData.bits} bits`;
+		case 'raid':
+			return `raiding with ${eventData.viewers} viewers`;
+		case 'redemption':
+			return `redeeming ${eventData.rewardTitle}`;
+	}
+
+	if (!isGifting) {
+		return 'subscribing';
+	}
+	if (giftCount < 2) {
+		return 'gifting';
+	}
+
+	const others = giftCount - recipients.length;
+	const names = recipients.length ? ` to ${recipients.join(', ')}${others > 0 ? ` and ${others} more` : ''}` : '';
+	return `gifting ${giftCount} subs${names}`;
+}
+
+/**
+ * Thanks the user with the channel's message template, `image` carries the url and style of the finished image.
+ */
+async function thankInChat(
+	twitchBot: Bot,
+	eventData: EventData,
+	key: 'thanks' | 'image' | 'failure' = 'thanks',
+	values: MessageValues = {},
+): Promise<void> {
+	if (eventData.quiet) {
+		return;
+	}
+
+	const message = channelSettingsManager.formatMessage(eventData.broadcasterName, key, {
+		...values,
+		user: eventData.userName,
+		verb: describeEvent(eventData),
+	});
+	await messagesThrottle(() => {
+		return twitchBot.say(eventData.broadcasterName, message);
+	});
+}
+
+/**
+ * Answers whoever requested an approved sweatling with a command.
+ */
+async function announceRequestedImage(
+	twitchBot: Bot,
+	discordBot: DiscordClient,
+	{ broadcasterName, userName, requestedBy, source, trigger }: EventData,
+	result: GenerationJobResult,
+): Promise<void> {
+	const action = trigger === 'reroll' ? 'a reroll' : 'generation';
+	await sendToDiscordChannels(
+		discordBot,
+		`\`${requestedBy}\` requested ${action} for \`${userName}\`. Here's the sweatling: ${result.image}`,
+	);
+	if (source === 'twitch') {
 		await messagesThrottle(() => {
 			return twitchBot.say(
 				broadcasterName,
-				`Thank you @${userName} for ${verb} dnkLove Unfortunately, I was unable to generate an image for you.`,
+				`@${requestedBy} requested ${action} for @${userName}. Here's the sweatling: ${result.image}`,
 			);
 		});
-		return;
 	}
+}
 
-	await imageDataStore.storeImageData(broadcasterName, userName, {
-		image: imageResult.message,
-		analysis: imageResult.analysis,
-		revisedPrompt: imageResult.revisedPrompt,
-		date: new Date().toISOString(),
-	});
+async function announceGenerationJob(
+	twitchBot: Bot,
+	discordBot: DiscordClient,
+	job: GenerationJob,
+	result: GenerationJobResult,
+): Promise<void> {
+	const { broadcasterName, userName } = job.eventData;
+	const verb = describeEvent(job.eventData);
+
+	// Resumed jobs that already stored their image must not store it a second time.
+	if (job.state !== 'stored') {
+		await imageDataStore.storeImageData(
+			broadcasterName,
+			userName,
+			withGenerationDefaults({
+				image: result.image,
+				analysis: result.analysis,
+				revisedPrompt: result.revisedPrompt,
+				date: new Date().toISOString(),
+				...result.metadata,
+				...(job.eventData.replaces !== undefined && { replaces: job.eventData.replaces }),
+			}),
+		);
+		jobQueue.setState(job.id, 'stored');
+	}
+
+	if (job.eventData.requestedBy) {
+		await announceRequestedImage(twitchBot, discordBot, job.eventData, result);
+		jobQueue.setState(job.id, 'announced');
+		return;
+	}
 
 	for (const channelId of discordChannels) {
 		const channel = discordBot.channels.cache.get(channelId);
@@ -214,7 +886,7 @@ async function handleEventAndSendImageMessage(
 				// );
 
 				await channel.send({
-					content: `Thank you \`${userName}\` for ${verb}. Here's your sweatling: ${imageResult.message}`,
+					content: `Thank you \`${userName}\` for ${verb}. Here's your sweatling: ${result.image}`,
 					// components: [row],
 				});
 			} catch (error) {
@@ -223,16 +895,132 @@ async function handleEventAndSendImageMessage(
 		}
 	}
 
+	console.log(`Sending ${verb} image`);
+	await thankInChat(twitchBot, job.eventData, 'image', { url: result.image, style: result.metadata?.style });
+	jobQueue.setState(job.id, 'announced');
+}
+
+/**
+ * A chat command that silently ignores users below the command's minimum role.
+ */
+function createCommand(
+	commandName: string,
+	execute: (params: string[], context: BotCommandContext) => void | Promise<void>,
+) {
+	return createBotCommand(commandName, async (params, context) => {
+		if (!permissionManager.canRunCommand(commandName, context.broadcasterName, context.msg.userInfo)) {
+			return;
+		}
+
+		await execute(params, context);
+	});
+}
+
+function getTargetUser(params: string[], userName: string): string {
+	return (params[0] ?? userName).replace(/^@/, '').toLowerCase();
+}
+
+function formatImageDate(image: StoredImage): string {
+	return image.date.slice(0, 10);
+}
+
+async function updateChannelStyle(
+	params: string[],
+	{ userName, broadcasterName, say }: BotCommandContext,
+	action: 'enable' | 'disable' | 'reset',
+): Promise<void> {
+	if (params.length !== 1) {
+		await messagesThrottle(() => {
+			return say(`@${userName} Please provide a style keyword.`);
+		});
+		return;
+	}
+
+	const keyword = params[0].toLowerCase();
+	const updated =
+		action === 'enable'
+			? await styleManager.enableStyle(broadcasterName, keyword)
+			: action === 'disable'
+				? await styleManager.disableStyle(broadcasterName, keyword)
+				: await styleManager.resetStyle(broadcasterName, keyword);
+
 	await messagesThrottle(() => {
-		console.log(`Sending ${verb} image`);
+		if (!updated) {
+			return say(`@${userName} Style ${keyword} not found.`);
+		}
 
-		return twitchBot.say(
-			broadcasterName,
-			`Thank you @${userName} for ${verb} dnkLove This is for you: ${imageResult.message}`,
-		);
+		return say(`@${userName} Style ${keyword} ${action === 'reset' ? 'reset' : `${action}d`} for this channel.`);
 	});
 }
 
+async function sendToDiscordChannels(discordBot: DiscordClient, content: string): Promise<void> {
+	for (const channelId of discordChannels) {
+		const channel = discordBot.channels.cache.get(channelId);
+		if (channel && channel.isTextBased() && channel.isSendable()) {
+			try {
+				await channel.send(content);
+			} catch (error) {
+				console.log(`Error sending message to channel ${channelId}`, error);
+			}
+		}
+	}
+}
+
+/**
+ * Adds the tokens in the broadcaster tokens directory to the auth provider.
+ * Returns the token file of every added user id.
+ */
+async function loadBroadcasterTokens(authProvider: RefreshingAuthProvider): Promise<Map<string, string>> {
+	const tokenFiles = new Map<string, string>();
+	let fileNames: string[];
+	try {
+		fileNames = await fs.readdir(broadcasterTokensDir);
+	} catch {
+		return tokenFiles;
+	}
+
+	for (const fileName of fileNames.filter((name) => name.endsWith('.json'))) {
+		const filePath = path.join(broadcasterTokensDir, fileName);
+		try {
+			const userId = await authProvider.addUserForToken(await readJsonFile<AccessToken>(filePath));
+			tokenFiles.set(userId, filePath);
+		} catch (error) {
+			console.log(`Error reading broadcaster token at ${filePath}`, error);
+		}
+	}
+	return tokenFiles;
+}
+
+/**
+ * Subscribes to cheers, raids and redemptions of every channel with enabled triggers.
+ */
+async function subscribeChannelTriggers(apiClient: ApiClient, onEvent: (eventData: EventData) => void): Promise<void> {
+	const channels = Array.from(twitchChannels).filter((channel) => channelTriggerManager.hasTriggers(channel));
+	if (channels.length === 0) {
+		return;
+	}
+
+	const eventSource = new TwitchEventSubSource(apiClient, env.EVENTSUB_URL);
+	for (const user of await apiClient.users.getUsersByNames(channels)) {
+		channelTriggerManager.subscribe(eventSource, user.id, user.name, onEvent);
+		console.log(`Subscribed to the triggers of ${user.name}`);
+	}
+	eventSource.start();
+}
+
+async function reloadManagers(): Promise<void> {
+	await ignoreListManager.loadIgnoreList();
+	await themeManager.loadThemes();
+	await meaningManager.loadMeanings();
+	await bannedGifterManager.loadBannedGifters();
+	await permissionManager.loadTrustedUsers();
+	await channelSettingsManager.loadSettings();
+	await styleManager.loadStyles();
+	await promptManager.loadPrompts();
+	await generationRuleManager.loadRules();
+	await channelTriggerManager.loadTriggers();
+}
+
 async function main() {
 	try {
 		const discordBot = new DiscordClient({
@@ -254,6 +1042,22 @@ async function main() {
 			if (!interaction.isButton()) return;
 			if (interaction.customId === 'primary') {
 				await interaction.reply(`Button clicked: ${interaction.user.displayName}`);
+				return;
+			}
+
+			const [action, jobId] = interaction.customId.split(':');
+			if ((action === 'approve' || action === 'reject') && interaction.user.id === discordAdmin) {
+				try {
+					// Discord only waits 3 seconds for an answer, announcing may take longer behind the chat throttle.
+					await interaction.deferUpdate();
+					const resolved = await resolveApproval(twitchBot, discordBot, jobId, action === 'approve');
+					await interaction.editReply({
+						content: `${interaction.message.content}\n${resolved ? `${action === 'approve' ? 'Approved' : 'Rejected'}.` : 'Already handled.'}`,
+						components: [],
+					});
+				} catch (error) {
+					console.log(`[${jobId}] Error resolving approval`, error);
+				}
 			}
 		});
 
@@ -314,24 +1118,26 @@ async function main() {
 						target: param,
 						trigger: 'custom',
 					};
-					const imageResult = await retryAsyncOperation(
-						generateImage,
-						MAX_RETRIES,
-						param.toLowerCase(),
-						param,
-						metadata,
-						theme,
-					);
+					const imageResult = await generateImageWithRetries(param.toLowerCase(), param, metadata, theme);
 					if (!imageResult.success) {
 						await message.reply(`Unable to generate image for ${param}`);
 						continue;
 					}
-					await imageDataStore.storeImageData(broadcasterName, param, {
-						image: imageResult.message,
-						analysis: imageResult.analysis,
-						revisedPrompt: imageResult.revisedPrompt,
-						date: new Date().toISOString(),
-					});
+
+					const eventData: EventData = {
+						broadcasterName,
+						userName: param,
+						userDisplayName: param,
+						trigger: 'custom',
+						requestedBy: message.author.username,
+						source: 'discord',
+					};
+					const outcome = await admitForPosting(discordBot, eventData, imageResult);
+					if (outcome !== 'admitted') {
+						await message.reply(`The sweatling of ${param} ${describeHeldBack(outcome)}.`);
+						continue;
+					}
+					await imageDataStore.storeImageData(broadcasterName, param, toSingleImage(imageResult));
 
 					for (const channelId of discordChannels) {
 						const channel = discordBot.channels.cache.get(channelId);
@@ -346,6 +1152,56 @@ async function main() {
 						}
 					}
 				}
+			} else if (command === '!reroll') {
+				const [broadcasterName, target, style] = params;
+				if (!broadcasterName || !target) {
+					await message.reply(`Usage: !reroll <broadcaster> <user> [style]`);
+					return;
+				}
+
+				const result = await rerollImage(
+					discordBot,
+					broadcasterName.toLowerCase(),
+					target.toLowerCase(),
+					'discord',
+					message.author.username,
+					style ?? null,
+				);
+				if (!result.success) {
+					await message.reply(result.message);
+					return;
+				}
+
+				await message.reply(
+					`Rerolled ${result.replaced.image} in style ${result.image.metadata.style}: ${result.image.message}`,
+				);
+			} else if (command === '!export') {
+				const includeTokens = params[0] === 'tokens';
+				const archive = await backupManager.exportArchive({ includeTokens });
+				const fileName = `twitch-sweat-backup-${archive.createdAt.replace(/[:.]/g, '-')}.json`;
+				await message.reply({
+					content: `Exported bot state${includeTokens ? ' including tokens' : ''}.`,
+					files: [new AttachmentBuilder(Buffer.from(JSON.stringify(archive, null, 4)), { name: fileName })],
+				});
+			} else if (command === '!import') {
+				const mode = params[0];
+				const attachment = message.attachments.first();
+				if ((mode !== 'merge' && mode !== 'replace') || !attachment) {
+					await message.reply(`Usage: !import <merge|replace> with the backup archive attached.`);
+					return;
+				}
+
+				try {
+					const response = await axios.get(attachment.url, { responseType: 'text' });
+					const result = await backupManager.importArchive(JSON.parse(response.data), mode);
+					await reloadManagers();
+					await message.reply(
+						`Imported backup (${result.mode}): ${result.images} images added, ${result.skippedImages} already known${result.tokens ? ', tokens restored, restart to use them' : ''}.`,
+					);
+				} catch (error) {
+					console.log('Error importing backup', error);
+					await message.reply(`Unable to import backup: ${error instanceof Error ? error.message : error}`);
+				}
 			} else {
 				await message.reply(`Unknown command.`);
 			}
@@ -365,7 +1221,7 @@ async function main() {
 
 		if (await exists(tokenFilePath)) {
 			try {
-				tokenData = JSON.parse(await fs.readFile(tokenFilePath, 'utf-8'));
+				tokenData = await readJsonFile<AccessToken>(tokenFilePath);
 			} catch (error) {
 				console.log('Error reading token file, using default values.', error);
 			}
@@ -376,8 +1232,16 @@ async function main() {
 			clientSecret: env.TWITCH_CLIENT_SECRET,
 		});
 
-		authProvider.onRefresh(async (_userId, newTokenData) => {
-			await fs.writeFile(tokenFilePath, JSON.stringify(newTokenData, null, 4), 'utf-8');
+		// Broadcaster tokens are only needed for EventSub, they are written back to their own files.
+		const broadcasterTokenFiles = await loadBroadcasterTokens(authProvider);
+
+		authProvider.onRefresh(async (userId, newTokenData) => {
+			const broadcasterTokenFile = broadcasterTokenFiles.get(userId);
+			if (broadcasterTokenFile) {
+				await writeJsonFile(broadcasterTokenFile, newTokenData);
+				return;
+			}
+			await writeJsonFile(tokenFilePath, newTokenData);
 			tokenData = newTokenData;
 		});
 		authProvider.onRefreshFailure((error) => {
@@ -387,11 +1251,7 @@ async function main() {
 		await authProvider.addUserForToken(tokenData, ['chat']);
 
 		const commands = [
-			createBotCommand('aisweatling', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('aisweatling', async (params, { userName, broadcasterName, say }) => {
 				if (params.length === 0) return;
 
 				const target = params[0].replace('@', '');
@@ -413,15 +1273,7 @@ async function main() {
 						trigger: 'custom',
 					};
 					const theme = themeManager.getBroadcasterTheme(broadcasterName);
-					imageResult = await retryAsyncOperation(
-						generateImage,
-						MAX_RETRIES,
-						target.toLowerCase(),
-						target,
-						metadata,
-						theme,
-						specifiedStyle,
-					);
+					imageResult = await generateImageWithRetries(target.toLowerCase(), target, metadata, theme, specifiedStyle);
 				} catch (error) {
 					imageResult = { success: false, message: 'Error' };
 				}
@@ -433,12 +1285,23 @@ async function main() {
 
 					return;
 				}
-				await imageDataStore.storeImageData(broadcasterName, params[0], {
-					image: imageResult.message,
-					analysis: imageResult.analysis,
-					revisedPrompt: imageResult.revisedPrompt,
-					date: new Date().toISOString(),
-				});
+
+				const eventData: EventData = {
+					broadcasterName,
+					userName: target,
+					userDisplayName: target,
+					trigger: 'custom',
+					requestedBy: userName,
+					source: 'twitch',
+				};
+				const outcome = await admitForPosting(discordBot, eventData, imageResult);
+				if (outcome !== 'admitted') {
+					await messagesThrottle(() => {
+						return say(`@${userName} The sweatling of ${target} ${describeHeldBack(outcome)}.`);
+					});
+					return;
+				}
+				await imageDataStore.storeImageData(broadcasterName, params[0], toSingleImage(imageResult));
 
 				try {
 					discordBot.user!.setActivity({
@@ -476,11 +1339,41 @@ async function main() {
 					return say(`@${userName} requested generation for @${target}. Here's the sweatling: ${imageResult.message}`);
 				});
 			}),
-			createBotCommand('settheme', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
+			createCommand('reroll', async (params, { userName, broadcasterName, say }) => {
+				if (params.length === 0) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Usage: !reroll <user> [style]`);
+					});
+					return;
+				}
+
+				const target = params[0].replace('@', '');
+				const result = await rerollImage(
+					discordBot,
+					broadcasterName,
+					target.toLowerCase(),
+					'twitch',
+					userName,
+					params[1] ?? null,
+				);
+				if (!result.success) {
+					await messagesThrottle(() => {
+						return say(`@${userName} ${result.message}`);
+					});
 					return;
 				}
 
+				await sendToDiscordChannels(
+					discordBot,
+					`Rerolled the sweatling of \`${target}\` in style ${result.image.metadata.style}: ${result.image.message}`,
+				);
+				await messagesThrottle(() => {
+					return say(
+						`@${userName} Rerolled the sweatling of @${target} in style ${result.image.metadata.style}: ${result.image.message}`,
+					);
+				});
+			}),
+			createCommand('settheme', async (params, { userName, broadcasterName, say }) => {
 				if (params.length === 0) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a theme.`);
@@ -495,18 +1388,14 @@ async function main() {
 					return say(`@${userName} Theme set to: ${theme}`);
 				});
 			}),
-			createBotCommand('deltheme', async (_params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('deltheme', async (_params, { userName, broadcasterName, say }) => {
 				await themeManager.removeTheme(broadcasterName.toLowerCase());
 
 				await messagesThrottle(() => {
 					return say(`@${userName} Theme removed.`);
 				});
 			}),
-			createBotCommand('gettheme', async (_params, { userName, broadcasterName, say }) => {
+			createCommand('gettheme', async (_params, { userName, broadcasterName, say }) => {
 				const theme = themeManager.getBroadcasterTheme(broadcasterName.toLowerCase());
 				await messagesThrottle(() => {
 					if (!theme) {
@@ -516,11 +1405,7 @@ async function main() {
 					return say(`@${userName} Current theme: ${theme}`);
 				});
 			}),
-			createBotCommand('setmeaning', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('setmeaning', async (params, { userName, say }) => {
 				if (params.length < 2) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a username and a meaning.`);
@@ -531,16 +1416,13 @@ async function main() {
 				const user = params[0];
 				const meaning = params.slice(1).join(' ');
 				await meaningManager.setMeaning(user.toLowerCase(), meaning);
+				analysisCache.invalidate(user);
 
 				await messagesThrottle(() => {
 					return say(`@${userName} Meaning for ${user} set.`);
 				});
 			}),
-			createBotCommand('delmeaning', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('delmeaning', async (params, { userName, say }) => {
 				if (params.length !== 1) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a username.`);
@@ -549,6 +1431,7 @@ async function main() {
 				}
 				const user = params[0];
 				const wasRemoved = await meaningManager.removeMeaning(user.toLowerCase());
+				analysisCache.invalidate(user);
 
 				await messagesThrottle(() => {
 					if (!wasRemoved) {
@@ -558,7 +1441,7 @@ async function main() {
 					return say(`@${userName} Meaning for ${user} removed.`);
 				});
 			}),
-			createBotCommand('getmeaning', async (params, { userName, say }) => {
+			createCommand('getmeaning', async (params, { userName, broadcasterName, say }) => {
 				if (params.length !== 1) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a username.`);
@@ -569,28 +1452,26 @@ async function main() {
 				const user = params[0];
 				const meaning = meaningManager.getUserMeaning(user.toLowerCase());
 				await messagesThrottle(() => {
-					return say(`@${userName} ${user} means '${meaning}' dnkNoted`);
+					return say(
+						channelSettingsManager.formatMessage(broadcasterName, 'meaning', { user: userName, target: user, meaning }),
+					);
 				});
 			}),
-			createBotCommand('noai', async (_params, { userName, say }) => {
+			createCommand('noai', async (_params, { userName, say }) => {
 				await ignoreListManager.addToIgnoreList(userName.toLowerCase());
 
 				await messagesThrottle(() => {
 					return say(`@${userName} You will no longer receive AI sweatlings`);
 				});
 			}),
-			createBotCommand('yesai', async (_params, { userName, say }) => {
+			createCommand('yesai', async (_params, { userName, say }) => {
 				await ignoreListManager.removeFromIgnoreList(userName.toLowerCase());
 
 				await messagesThrottle(() => {
 					return say(`@${userName} You will now receive AI sweatlings`);
 				});
 			}),
-			createBotCommand('bangifter', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('bangifter', async (params, { userName, broadcasterName, say }) => {
 				if (params.length !== 1) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a username.`);
@@ -605,11 +1486,7 @@ async function main() {
 					return say(`@${userName} Gifter ${gifter} banned. Sub gifts from this user will be ignored.`);
 				});
 			}),
-			createBotCommand('unbangifter', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('unbangifter', async (params, { userName, broadcasterName, say }) => {
 				if (params.length !== 1) {
 					await messagesThrottle(() => {
 						return say(`@${userName} Please provide a username.`);
@@ -626,54 +1503,273 @@ async function main() {
 					}
 				});
 			}),
-			createBotCommand('ping', async (_params, { userName, say }) => {
-				if (userName.toLowerCase() !== 'partyhorst') return;
+			createCommand('addtrusted', async (params, { userName, broadcasterName, say }) => {
+				if (params.length !== 1) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Please provide a username.`);
+					});
+					return;
+				}
+
+				const user = params[0].replace(/^@/, '');
+				const wasAdded = await permissionManager.addTrustedUser(broadcasterName, user);
 
 				await messagesThrottle(() => {
-					return say(`@${userName} pong`);
+					if (!wasAdded) {
+						return say(`@${userName} ${user} is already trusted.`);
+					}
+
+					return say(`@${userName} ${user} is now trusted.`);
+				});
+			}),
+			createCommand('removetrusted', async (params, { userName, broadcasterName, say }) => {
+				if (params.length !== 1) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Please provide a username.`);
+					});
+					return;
+				}
+
+				const user = params[0].replace(/^@/, '');
+				const wasRemoved = await permissionManager.removeTrustedUser(broadcasterName, user);
+
+				await messagesThrottle(() => {
+					if (!wasRemoved) {
+						return say(`@${userName} ${user} is not trusted.`);
+					}
+
+					return say(`@${userName} ${user} is no longer trusted.`);
+				});
+			}),
+			createCommand('addstyle', async (params, { userName, say }) => {
+				const [name, description] = params
+					.slice(1)
+					.join(' ')
+					.split('|')
+					.map((part) => part.trim());
+				if (!params[0] || !name || !description) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Usage: !addstyle <keyword> <name> | <description>`);
+					});
+					return;
+				}
+
+				const keyword = params[0].toLowerCase();
+				const isNew = await styleManager.addStyle({ keyword, name, description });
+
+				await messagesThrottle(() => {
+					return say(`@${userName} Style ${keyword} ${isNew ? 'added' : 'updated'}.`);
+				});
+			}),
+			createCommand('delstyle', async (params, { userName, say }) => {
+				if (params.length !== 1) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Please provide a style keyword.`);
+					});
+					return;
+				}
+
+				const wasRemoved = await styleManager.removeStyle(params[0]);
+
+				await messagesThrottle(() => {
+					if (!wasRemoved) {
+						return say(`@${userName} Style ${params[0]} not found.`);
+					}
+
+					return say(`@${userName} Style ${params[0]} removed.`);
+				});
+			}),
+			createCommand('liststyles', async (_params, { userName, broadcasterName, say }) => {
+				const keywords = styleManager.getChannelStyles(broadcasterName).map((style) => style.keyword);
+
+				await messagesThrottle(() => {
+					if (keywords.length === 0) {
+						return say(`@${userName} No styles available in this channel.`);
+					}
+
+					return say(truncate(`@${userName} Styles: ${keywords.join(', ')}`, 500));
+				});
+			}),
+			createCommand('enablestyle', async (params, context) => {
+				await updateChannelStyle(params, context, 'enable');
+			}),
+			createCommand('disablestyle', async (params, context) => {
+				await updateChannelStyle(params, context, 'disable');
+			}),
+			createCommand('resetstyle', async (params, context) => {
+				await updateChannelStyle(params, context, 'reset');
+			}),
+			createCommand('styleweight', async (params, { userName, say }) => {
+				const weight = parseFloat(params[1]);
+				if (params.length !== 2 || isNaN(weight) || weight <= 0) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Usage: !styleweight <keyword> <weight greater than 0>`);
+					});
+					return;
+				}
+
+				const updated = await styleManager.setStyleWeight(params[0], weight);
+
+				await messagesThrottle(() => {
+					if (!updated) {
+						return say(`@${userName} Style ${params[0]} not found.`);
+					}
+
+					return say(`@${userName} Weight of style ${params[0]} set to ${weight}.`);
 				});
 			}),
-			createBotCommand('say', async (params, { say, userName, broadcasterName }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
+			createCommand('stylemode', async (params, { userName, broadcasterName, say }) => {
+				const mode = params[0]?.toLowerCase();
+				if (mode !== 'random' && mode !== 'rotation') {
+					await messagesThrottle(() => {
+						return say(
+							`@${userName} Current style mode: ${styleManager.getSelectionMode(broadcasterName)}. Usage: !stylemode <random|rotation>`,
+						);
+					});
 					return;
 				}
+
+				await styleManager.setSelectionMode(broadcasterName, mode);
+
+				await messagesThrottle(() => {
+					return say(`@${userName} Style mode set to ${mode}.`);
+				});
+			}),
+			createCommand('reloadprompts', async (_params, { userName, say }) => {
+				await promptManager.loadPrompts();
+
+				await messagesThrottle(() => {
+					return say(`@${userName} Prompt versions: ${promptManager.getPromptVersions().join(', ')}`);
+				});
+			}),
+			createCommand('promptversion', async (_params, { userName, broadcasterName, say }) => {
+				const assignment = promptManager.getAssignment(broadcasterName);
+
+				await messagesThrottle(() => {
+					if (typeof assignment === 'string') {
+						return say(`@${userName} This channel uses prompts ${assignment}.`);
+					}
+
+					return say(
+						`@${userName} This channel splits prompts between ${assignment.control} and ${assignment.variant} (${assignment.variantPercentage}%).`,
+					);
+				});
+			}),
+			createCommand('spend', async (_params, { userName, broadcasterName, say }) => {
+				const { daily, monthly, caps } = spendTracker.getBudgetStatus(broadcasterName);
+				const formatSpend = (spent: number, cap?: number) =>
+					cap === undefined ? `$${spent.toFixed(2)}` : `$${spent.toFixed(2)} of $${cap.toFixed(2)}`;
+
+				await messagesThrottle(() => {
+					return say(
+						`@${userName} Spent today: ${formatSpend(daily, caps.daily)}, this month: ${formatSpend(monthly, caps.monthly)}`,
+					);
+				});
+			}),
+			createCommand('ping', async (_params, { userName, say }) => {
+				await messagesThrottle(() => {
+					return say(`@${userName} pong`);
+				});
+			}),
+			createCommand('say', async (params, { say }) => {
 				if (params.length === 0) return;
 
 				await messagesThrottle(() => {
 					return say(params.join(' '));
 				});
 			}),
-			createBotCommand('uguu', async (_params, { say, userName, broadcasterName }) => {
+			createCommand('uguu', async (_params, { say }) => {
 				// myndzi would never
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
+				await messagesThrottle(() => {
+					return say(`!uguu`);
+				});
+			}),
+			createCommand('quack', async (_params, { say }) => {
+				await messagesThrottle(() => {
+					return say(`!quack`);
+				});
+			}),
+			createCommand('myai', async (_params, { userName, broadcasterName, say }) => {
+				await messagesThrottle(() => {
+					return say(channelSettingsManager.formatMessage(broadcasterName, 'myai', { user: userName }));
+				});
+			}),
+			createCommand('setmessage', async (params, { userName, broadcasterName, say }) => {
+				const key = params[0]?.toLowerCase();
+				if (!key || !isMessageKey(key) || params.length < 2) {
+					await messagesThrottle(() => {
+						return say(
+							`@${userName} Usage: !setmessage <${Object.keys(DEFAULT_MESSAGES).join('|')}> <template>, placeholders: ${MESSAGE_PLACEHOLDERS.map((placeholder) => `__${placeholder.toUpperCase()}__`).join(' ')}`,
+						);
+					});
 					return;
 				}
 
+				await channelSettingsManager.setMessageTemplate(broadcasterName, key, params.slice(1).join(' '));
+
 				await messagesThrottle(() => {
-					return say(`!uguu`);
+					return say(`@${userName} Message ${key} set.`);
 				});
 			}),
-			createBotCommand('quack', async (_params, { say, userName, broadcasterName }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
+			createCommand('resetmessage', async (params, { userName, broadcasterName, say }) => {
+				const key = params[0]?.toLowerCase();
+				if (!key || !isMessageKey(key)) {
+					await messagesThrottle(() => {
+						return say(`@${userName} Usage: !resetmessage <${Object.keys(DEFAULT_MESSAGES).join('|')}>`);
+					});
 					return;
 				}
 
+				const wasReset = await channelSettingsManager.resetMessageTemplate(broadcasterName, key);
+
 				await messagesThrottle(() => {
-					return say(`!quack`);
+					if (!wasReset) {
+						return say(`@${userName} Message ${key} already uses the default.`);
+					}
+
+					return say(`@${userName} Message ${key} reset to the default.`);
+				});
+			}),
+			createCommand('lastai', async (params, { userName, broadcasterName, say }) => {
+				const target = getTargetUser(params, userName);
+				const image = await imageDataStore.getLatestUserImage(broadcasterName, target);
+
+				await messagesThrottle(() => {
+					if (!image) {
+						return say(`@${userName} ${target} has no sweatlings in this channel yet.`);
+					}
+
+					return say(`@${userName} Last sweatling of ${target} from ${formatImageDate(image)}: ${image.image}`);
 				});
 			}),
-			createBotCommand('myai', async (_params, { userName, say }) => {
+			createCommand('aicount', async (params, { userName, broadcasterName, say }) => {
+				const target = getTargetUser(params, userName);
+				const count = await imageDataStore.countImages({ broadcaster: broadcasterName, user: target });
+				const latest = count > 0 ? await imageDataStore.getLatestUserImage(broadcasterName, target) : undefined;
+
 				await messagesThrottle(() => {
+					if (!latest) {
+						return say(`@${userName} ${target} has no sweatlings in this channel yet.`);
+					}
+
 					return say(
-						`@${userName} Check your sweatlings at https://www.curvyspiderwife.com/user/${userName} or in Discord dnkLove`,
+						`@${userName} ${target} has ${count} sweatling${count === 1 ? '' : 's'} in this channel, the last one from ${formatImageDate(latest)}: ${latest.image}`,
 					);
 				});
 			}),
-			createBotCommand('testall', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
+			createCommand('randomai', async (params, { userName, broadcasterName, say }) => {
+				const target = getTargetUser(params, userName);
+				const image = await imageDataStore.getRandomUserImage(broadcasterName, target);
+
+				await messagesThrottle(() => {
+					if (!image) {
+						return say(`@${userName} ${target} has no sweatlings in this channel yet.`);
+					}
 
+					return say(`@${userName} Random sweatling of ${target} from ${formatImageDate(image)}: ${image.image}`);
+				});
+			}),
+			createCommand('testall', async (params, { userName, broadcasterName, say }) => {
 				if (testGenerationState.isRunning) {
 					await messagesThrottle(() => {
 						return say(`@${userName} A test generation is already running. Use !canceltests to stop it.`);
@@ -702,7 +1798,8 @@ async function main() {
 				testGenerationState.isRunning = true;
 				testGenerationState.shouldCancel = false;
 
-				const totalTasks = count * DALLE_TEMPLATES.length;
+				const styles = styleManager.getChannelStyles(broadcasterName);
+				const totalTasks = count * styles.length;
 				await messagesThrottle(() => {
 					return say(
 						`@${userName} Starting test generation for ${target} with ${count} image(s) per style. Total images: ${totalTasks}`,
@@ -714,7 +1811,7 @@ async function main() {
 				const theme = themeManager.getBroadcasterTheme(broadcasterName);
 
 				const generationTasks = [];
-				for (const template of DALLE_TEMPLATES) {
+				for (const template of styles) {
 					for (let i = 0; i < count; i++) {
 						if (testGenerationState.shouldCancel) {
 							break;
@@ -740,9 +1837,7 @@ async function main() {
 									return;
 								}
 
-								const imageResult = await retryAsyncOperation(
-									generateImage,
-									MAX_RETRIES,
+								const imageResult = await generateImageWithRetries(
 									target.toLowerCase(),
 									target,
 									metadata,
@@ -759,12 +1854,22 @@ async function main() {
 								}
 
 								successCount++;
-								await imageDataStore.storeImageData(broadcasterName, target, {
-									image: imageResult.message,
-									analysis: imageResult.analysis,
-									revisedPrompt: imageResult.revisedPrompt,
-									date: new Date().toISOString(),
-								});
+								const eventData: EventData = {
+									broadcasterName,
+									userName: target,
+									userDisplayName: target,
+									trigger: 'test',
+									requestedBy: userName,
+									source: 'twitch',
+								};
+								const outcome = await admitForPosting(discordBot, eventData, imageResult);
+								if (outcome !== 'admitted') {
+									await messagesThrottle(() => {
+										return say(`@${userName} Test image for style ${template.keyword} ${describeHeldBack(outcome)}.`);
+									});
+									return;
+								}
+								await imageDataStore.storeImageData(broadcasterName, target, toSingleImage(imageResult));
 
 								// Send to both Twitch and Discord
 								await Promise.all([
@@ -826,11 +1931,7 @@ async function main() {
 					]);
 				}
 			}),
-			createBotCommand('canceltests', async (params, { userName, broadcasterName, say }) => {
-				if (!isAdminOrBroadcaster(userName, broadcasterName, twitchAdmins)) {
-					return;
-				}
-
+			createCommand('canceltests', async (params, { userName, say }) => {
 				if (!testGenerationState.isRunning) {
 					await messagesThrottle(() => {
 						return say(`@${userName} No test generation is currently running.`);
@@ -857,24 +1958,72 @@ async function main() {
 		twitchBot.onConnect(() => {
 			console.log(`Connected to chat server`);
 		});
+		const giftBatcher = new GiftBatcher(database, env.GIFT_BATCH_WINDOW_SECONDS * 1000, (batch) => {
+			const events = planGiftBatch(batch, env.GIFT_BATCH_MODE, env.GIFT_BATCH_MAX_RECIPIENTS, (userName) =>
+				ignoreListManager.isUserIgnored(userName.toLowerCase()),
+			);
+			console.log(
+				`Gift batch of ${batch.gifterName || 'anonymous'} in ${batch.broadcasterName}: ${batch.giftCount} gift(s), ${events.length} generation(s)`,
+			);
+			for (const eventData of events) {
+				handleEventAndSendImageMessage(twitchBot, discordBot, eventData);
+			}
+		});
 		twitchBot.onJoin(({ broadcasterName }) => {
 			console.log(`Joined channel ${broadcasterName}`);
+			resumeGenerationJobs(twitchBot, discordBot, broadcasterName).catch((error) => {
+				console.log(`Error resuming generation jobs for ${broadcasterName}`, error);
+			});
+			// Batches left open by a restart are only handed over once the bot is in the channel again.
+			const restoredGiftBatches = giftBatcher.restore(broadcasterName);
+			if (restoredGiftBatches > 0) {
+				console.log(`Restored ${restoredGiftBatches} open gift batch(es) for ${broadcasterName}`);
+			}
 		});
-		twitchBot.onSub(({ broadcasterName, userName, userDisplayName }) => {
-			console.log('onSub', broadcasterName, userName, userDisplayName);
-			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName });
+		if (env.BUDGET_EXCEEDED_ACTION === 'defer') {
+			setInterval(() => {
+				for (const broadcasterName of twitchChannels) {
+					resumeGenerationJobs(twitchBot, discordBot, broadcasterName, true).catch((error) => {
+						console.log(`Error resuming deferred generation jobs for ${broadcasterName}`, error);
+					});
+				}
+			}, DEFERRED_JOBS_INTERVAL_MS);
+		}
+		subscribeChannelTriggers(new ApiClient({ authProvider }), (eventData) => {
+			console.log(`on ${eventData.trigger}`, eventData.broadcasterName, eventData.userName);
+			handleEventAndSendImageMessage(twitchBot, discordBot, eventData);
+		}).catch((error) => {
+			console.log('Error subscribing to channel triggers', error);
 		});
-		twitchBot.onResub(({ broadcasterName, userName, userDisplayName }) => {
-			console.log('onResub', broadcasterName, userName, userDisplayName);
-			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName });
+		twitchBot.onSub(({ broadcasterName, userName, userDisplayName, plan, months, streak }) => {
+			console.log('onSub', broadcasterName, userName, userDisplayName, plan, months);
+			handleEventAndSendImageMessage(twitchBot, discordBot, {
+				broadcasterName,
+				userName,
+				userDisplayName,
+				plan,
+				months,
+				...(streak !== null && { streak }),
+			});
+		});
+		twitchBot.onResub(({ broadcasterName, userName, userDisplayName, plan, months, streak }) => {
+			console.log('onResub', broadcasterName, userName, userDisplayName, plan, months);
+			handleEventAndSendImageMessage(twitchBot, discordBot, {
+				broadcasterName,
+				userName,
+				userDisplayName,
+				plan,
+				months,
+				...(streak !== null && { streak }),
+			});
 		});
 		twitchBot.onGiftPaidUpgrade(({ broadcasterName, userName, userDisplayName }) => {
 			console.log('onGiftPaidUpgrade', broadcasterName, userName, userDisplayName);
 			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName });
 		});
-		twitchBot.onPrimePaidUpgrade(({ broadcasterName, userName, userDisplayName }) => {
+		twitchBot.onPrimePaidUpgrade(({ broadcasterName, userName, userDisplayName, plan }) => {
 			console.log('onPrimePaidUpgrade', broadcasterName, userName, userDisplayName);
-			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName });
+			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName, plan });
 		});
 		twitchBot.onStandardPayForward(({ broadcasterName, gifterName, gifterDisplayName }) => {
 			console.log('onStandardPayForward', broadcasterName, gifterName, gifterDisplayName);
@@ -894,35 +2043,34 @@ async function main() {
 				isGifting: true,
 			});
 		});
-		twitchBot.onCommunitySub(({ broadcasterName, gifterName, gifterDisplayName }) => {
+		twitchBot.onCommunitySub(({ broadcasterName, gifterName, gifterDisplayName, count, plan }) => {
 			console.log('onCommunitySub', broadcasterName, gifterName || 'anonymous', gifterDisplayName || 'Anonymous');
 
 			// If the gifter is banned (and not anonymous), don't generate an image for the gifter.
-			// We only generate an image for the gifter in this event, not for the recipients.
 			if (gifterName && bannedGifterManager.isGifterBanned(broadcasterName, gifterName)) {
 				console.log(`Gifter ${gifterName} is banned for ${broadcasterName}, not generating image`);
 				return;
 			}
 
-			handleEventAndSendImageMessage(twitchBot, discordBot, {
-				broadcasterName,
-				userName: gifterName || 'Anonymous',
-				userDisplayName: gifterDisplayName || 'Anonymous',
-				isGifting: true,
-			});
-		});
-		twitchBot.onSubGift(({ broadcasterName, userName, userDisplayName, gifterName }) => {
-			console.log('onSubGift', broadcasterName, userName, userDisplayName);
-
-			// Don't generate image for the recipient if:
-			// a) The gifter is anonymous, OR
-			// b) The gifter is banned.
-			if (!gifterName || bannedGifterManager.isGifterBanned(broadcasterName, gifterName)) {
-				console.log(`Gifter ${gifterName || 'anonymous'} is banned for ${broadcasterName}, not generating image`);
-				return;
-			}
-			handleEventAndSendImageMessage(twitchBot, discordBot, { broadcasterName, userName, userDisplayName });
+			giftBatcher.addCommunityGift(broadcasterName, gifterName, gifterDisplayName, count, plan);
 		});
+		twitchBot.onSubGift(
+			({ broadcasterName, userName, userDisplayName, gifterName, gifterDisplayName, plan, months }) => {
+				console.log('onSubGift', broadcasterName, userName, userDisplayName);
+
+				// Recipients of a banned gifter get nothing. Recipients of anonymous gifts are only named in the group scene.
+				if (gifterName && bannedGifterManager.isGifterBanned(broadcasterName, gifterName)) {
+					console.log(`Gifter ${gifterName} is banned for ${broadcasterName}, not generating image`);
+					return;
+				}
+				giftBatcher.addGift(broadcasterName, gifterName, gifterDisplayName, {
+					userName,
+					userDisplayName,
+					plan,
+					months,
+				});
+			},
+		);
 	} catch (error: unknown) {
 		if (error instanceof InvalidTokenError) {
 			console.log('Invalid tokens, please check your environment variables');
@@ -936,25 +2084,84 @@ async function main() {
 }
 
 const appRootDir = await getAppRootDir();
+const dataDir = path.join(appRootDir, 'data');
 const tokenFilePath = path.join(appRootDir, 'data', 'tokens.json');
-const imagesFilePath = path.join(appRootDir, 'data', 'images.json');
-const meaningsFilePath = path.join(appRootDir, 'data', 'meanings.json');
-const themeFilePath = path.join(appRootDir, 'data', 'themes.json');
-const ignoreFilePath = path.join(appRootDir, 'data', 'ignore.json');
-const bannedGiftersFilePath = path.join(appRootDir, 'data', 'bannedGifters.json');
+const databasePath = resolveDatabasePath(env.DATABASE_URL, appRootDir);
 const logFilePath = path.join(appRootDir, 'data', 'log.txt');
 
-const openAIManager = new OpenAIManager(env.OPENAI_API_KEY, env.OPENAI_MODEL, env.CLOUDFLARE_AI_GATEWAY);
-const cfUploader = new CloudflareUploader(env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN);
+const openAIManager = env.MOCK_MODE
+	? new MockOpenAIManager(env.OPENAI_MODEL)
+	: new OpenAIManager(env.OPENAI_API_KEY!, env.OPENAI_MODEL, env.CLOUDFLARE_AI_GATEWAY);
+const imagesDir = path.resolve(appRootDir, env.LOCAL_IMAGES_DIR);
+const imageHost = createImageHost({
+	host: env.MOCK_MODE ? 'local' : env.IMAGE_HOST,
+	cloudflare:
+		env.CLOUDFLARE_ACCOUNT_ID && env.CLOUDFLARE_API_TOKEN && env.CLOUDFLARE_IMAGES_URL
+			? {
+					accountId: env.CLOUDFLARE_ACCOUNT_ID,
+					apiToken: env.CLOUDFLARE_API_TOKEN,
+					imagesUrl: env.CLOUDFLARE_IMAGES_URL,
+				}
+			: undefined,
+	s3: env.S3_BUCKET
+		? {
+				bucket: env.S3_BUCKET,
+				publicUrl: env.S3_PUBLIC_URL!,
+				region: env.S3_REGION,
+				endpoint: env.S3_ENDPOINT,
+				accessKeyId: env.S3_ACCESS_KEY_ID,
+				secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+			}
+		: undefined,
+	local: {
+		imagesDir,
+		publicUrl:
+			env.LOCAL_IMAGES_URL ??
+			(env.HTTP_PORT ? `http://localhost:${env.HTTP_PORT}/images` : pathToFileURL(imagesDir).href),
+	},
+});
+const imageProviders = new ImageProviderRegistry(
+	[
+		new DallE3ImageProvider(openAIManager),
+		new OpenAIImageProvider(openAIManager, env.OPENAI_IMAGE_MODEL),
+		...(env.LOCAL_IMAGE_API_URL ? [new HttpImageProvider(env.LOCAL_IMAGE_API_URL)] : []),
+	],
+	env.IMAGE_PROVIDER,
+	parseChannelProviders(env.IMAGE_PROVIDER_CHANNELS),
+);
 const twitchChannels = new Set((env.TWITCH_CHANNELS ?? '').toLowerCase().split(',').filter(Boolean));
 const twitchAdmins = new Set((env.TWITCH_ADMINS ?? '').toLowerCase().split(',').filter(Boolean));
 const discordChannels = env.DISCORD_CHANNELS.split(',');
 const discordAdmin = env.DISCORD_ADMIN_USER_ID;
-const ignoreListManager = new IgnoreListManager(ignoreFilePath);
-const themeManager = new ThemeManager(themeFilePath);
-const meaningManager = new MeaningManager(meaningsFilePath);
-const bannedGifterManager = new BannedGifterManager(bannedGiftersFilePath);
-const imageDataStore = new ImageDataStore(imagesFilePath);
+const database = openDatabase(databasePath);
+const { documentStorage, imageStorage } = createStorage(env.STORAGE_BACKEND, dataDir, database);
+const ignoreListManager = new IgnoreListManager(documentStorage);
+const themeManager = new ThemeManager(documentStorage);
+const meaningManager = new MeaningManager(documentStorage);
+const bannedGifterManager = new BannedGifterManager(documentStorage);
+const channelSettingsManager = new ChannelSettingsManager(documentStorage);
+const permissionManager = new PermissionManager(documentStorage, twitchAdmins, parseCommandRoles(env.COMMAND_ROLES));
+const styleManager = new StyleManager(documentStorage);
+const promptManager = new PromptManager(path.resolve(appRootDir, env.PROMPTS_DIR));
+const imageDataStore = new ImageDataStore(imageStorage);
+const jobQueue = new GenerationJobQueue(database);
+const analysisCache = new AnalysisCache(database);
+const channelTriggerManager = new ChannelTriggerManager(path.resolve(appRootDir, env.TRIGGERS_FILE));
+const broadcasterTokensDir = path.resolve(appRootDir, env.BROADCASTER_TOKENS_DIR);
+const generationRuleManager = new GenerationRuleManager(path.resolve(appRootDir, env.GENERATION_RULES_FILE));
+const spendTracker = new SpendTracker(
+	database,
+	parsePriceTable(env.PRICE_TABLE),
+	{ daily: env.BUDGET_DAILY, monthly: env.BUDGET_MONTHLY },
+	parseChannelBudgets(env.BUDGET_CHANNELS),
+);
+const budgetNotifications = new Set<string>();
+const moderator = createModerator({
+	classifiers: parseModerationClassifiers(env.MODERATION),
+	openAIManager,
+	keywords: parseKeywordRules(env.MODERATION_KEYWORDS),
+});
+const backupManager = new BackupManager(documentStorage, imageDataStore, tokenFilePath);
 const messagesThrottle = throttledQueue(MESSAGE_THROTTLE_LIMIT, MESSAGE_THROTTLE_INTERVAL_MS, true);
 const openaiThrottle = throttledQueue(OPENAI_THROTTLE_LIMIT, OPENAI_THROTTLE_INTERVAL_MS, true);
 const dalleThrottle = throttledQueue(DALLE_THROTTLE_LIMIT, DALLE_THROTTLE_INTERVAL_MS, true);
@@ -968,32 +2175,62 @@ try {
 		});
 	};
 
-	await Promise.all([
-		ensureFileExists(tokenFilePath),
-		ensureFileExists(imagesFilePath, JSON.stringify({})),
-		ensureFileExists(ignoreFilePath, JSON.stringify([])),
-		ensureFileExists(meaningsFilePath, JSON.stringify({})),
-		ensureFileExists(themeFilePath, JSON.stringify({})),
-		ensureFileExists(bannedGiftersFilePath, JSON.stringify({})),
-		ignoreListManager.loadIgnoreList(),
-	]);
+	await ensureFileExists(tokenFilePath);
 
-	await themeManager.loadThemes();
-	await meaningManager.loadMeanings();
-	await bannedGifterManager.loadBannedGifters();
+	for (const migration of await runMigrations(dataDir)) {
+		console.log(`Migrated ${migration.file} from v${migration.from} to v${migration.to}`);
+	}
+
+	await reloadManagers();
+
+	if (documentStorage instanceof JsonFileStorage) {
+		new DataFileWatcher(dataDir, {
+			[DATA_FILE_NAMES.themes]: { schema: themesFileSchema, reload: () => themeManager.loadThemes() },
+			[DATA_FILE_NAMES.meanings]: { schema: meaningsFileSchema, reload: () => meaningManager.loadMeanings() },
+			[DATA_FILE_NAMES.ignore]: { schema: ignoreFileSchema, reload: () => ignoreListManager.loadIgnoreList() },
+			[DATA_FILE_NAMES.bannedGifters]: {
+				schema: bannedGiftersFileSchema,
+				reload: () => bannedGifterManager.loadBannedGifters(),
+			},
+			[DATA_FILE_NAMES.trusted]: { schema: trustedFileSchema, reload: () => permissionManager.loadTrustedUsers() },
+			[DATA_FILE_NAMES.settings]: { schema: settingsFileSchema, reload: () => channelSettingsManager.loadSettings() },
+			[DATA_FILE_NAMES.styles]: { schema: stylesFileSchema, reload: () => styleManager.loadStyles() },
+		}).start();
+	}
 
 	console.log(`Using token file: ${tokenFilePath}`);
-	console.log(`Using images file: ${imagesFilePath}`);
-	console.log(`Using meanings file: ${meaningsFilePath}`);
-	console.log(`Using themes file: ${themeFilePath}`);
-	console.log(`Using ignore file: ${ignoreFilePath}`);
-	console.log(`Using banned gifters file: ${bannedGiftersFilePath}`);
+	console.log(`Using database: ${databasePath}`);
+	console.log(`Using storage backend: ${env.STORAGE_BACKEND}`);
+	console.log(`Using meanings: ${documentStorage.describe('meanings')}`);
+	console.log(`Using themes: ${documentStorage.describe('themes')}`);
+	console.log(`Using ignore list: ${documentStorage.describe('ignore')}`);
+	console.log(`Using banned gifters: ${documentStorage.describe('bannedGifters')}`);
+	console.log(`Using trusted users: ${documentStorage.describe('trusted')}`);
+	console.log(`Using settings: ${documentStorage.describe('settings')}`);
+	console.log(`Using styles: ${documentStorage.describe('styles')}`);
+	console.log(`Using prompt versions: ${promptManager.getPromptVersions().join(', ')}`);
+	console.log(`Using images: ${imageStorage.describe('images')}`);
 	for (const [broadcaster, bannedGifters] of bannedGifterManager.getMap()) {
 		console.log(`Banned gifters for ${broadcaster}: ${bannedGifters.join(', ')}`);
 	}
 	console.log(`Using OpenAI model: ${env.OPENAI_MODEL}`);
+	console.log(`Using image host: ${imageHost.name}`);
+	if (env.MOCK_MODE) {
+		console.log(`Mock mode: no requests to OpenAI, images are placeholders stored in ${imagesDir}`);
+	}
+	console.log(
+		`Using image provider: ${env.IMAGE_PROVIDER}, available: ${imageProviders.getProviderNames().join(', ')}`,
+	);
 	console.log('Twitch admins:', Array.from(twitchAdmins).join(', '));
 
+	if (env.HTTP_PORT) {
+		try {
+			await new GalleryServer(imageDataStore, imageHost.name === 'local' ? imagesDir : undefined).start(env.HTTP_PORT);
+		} catch (error) {
+			console.error(`Error starting the gallery server on port ${env.HTTP_PORT}, continuing without it`, error);
+		}
+	}
+
 	await main();
 } catch (error: unknown) {
 	if (error instanceof Error) {
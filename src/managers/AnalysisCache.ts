@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { SqliteDatabase } from '../utils/database';
+import { analysisSchema } from '../schemas/imageSchemas';
+
+export type UsernameAnalysis = z.infer<typeof analysisSchema>;
+
+type AnalysisRow = {
+	meaning: string;
+	analysis: string;
+};
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS analysis_cache (
+		username TEXT NOT NULL,
+		prompt_version TEXT NOT NULL,
+		meaning TEXT NOT NULL,
+		analysis TEXT NOT NULL,
+		created_at TEXT NOT NULL,
+		PRIMARY KEY (username, prompt_version)
+	);
+`;
+
+/**
+ * Remembers the username analysis (`step1`) per user and prompt version, so repeat generations only need a new scene.
+ * An entry only counts while the user's meaning is the one it was created with.
+ */
+export class AnalysisCache {
+	constructor(private readonly db: SqliteDatabase) {
+		this.db.exec(SCHEMA);
+	}
+
+	get(username: string, meaning: string, promptVersion: string): UsernameAnalysis | undefined {
+		const row = this.db
+			.prepare('SELECT meaning, analysis FROM analysis_cache WHERE username = ? AND prompt_version = ?')
+			.get(username.toLowerCase(), promptVersion) as AnalysisRow | undefined;
+		if (!row || row.meaning !== meaning) {
+			return undefined;
+		}
+
+		const result = analysisSchema.safeParse(JSON.parse(row.analysis));
+		return result.success ? result.data : undefined;
+	}
+
+	set(username: string, meaning: string, promptVersion: string, analysis: UsernameAnalysis): void {
+		this.db
+			.prepare(
+				`INSERT INTO analysis_cache (username, prompt_version, meaning, analysis, created_at)
+				VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT (username, prompt_version) DO UPDATE SET
+					meaning = excluded.meaning, analysis = excluded.analysis, created_at = excluded.created_at`,
+			)
+			.run(username.toLowerCase(), promptVersion, meaning, JSON.stringify(analysis), new Date().toISOString());
+	}
+
+	/**
+	 * Drops every cached analysis of the user, e.g. after their meaning changed.
+	 */
+	invalidate(username: string): void {
+		this.db.prepare('DELETE FROM analysis_cache WHERE username = ?').run(username.toLowerCase());
+	}
+}
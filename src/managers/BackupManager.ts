@@ -0,0 +1,236 @@
+import { ImageDataStore } from './ImageDataStore';
+import { DocumentKey, StorageBackend } from '../storage/StorageBackend';
+import { DataFileKey, SCHEMA_VERSIONS } from '../migrations/migrations';
+import { migrateData } from '../migrations/runMigrations';
+import { readJsonFile, writeJsonFile } from '../utils/persistence';
+import {
+	BACKUP_FORMAT,
+	BACKUP_VERSION,
+	BackupArchive,
+	backupArchiveSchema,
+	backupDataSchema,
+} from '../schemas/backupSchema';
+import { BroadcasterImages, SingleImage, StoredImage } from '../types/images';
+import { StylesFile } from './StyleManager';
+import { SettingsFile } from './ChannelSettingsManager';
+import { DALLE_TEMPLATES } from '../constants/styles';
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ExportOptions = {
+	includeTokens?: boolean;
+};
+
+export type ImportResult = {
+	mode: ImportMode;
+	images: number;
+	skippedImages: number;
+	tokens: boolean;
+};
+
+type Documents = {
+	themes: Record<string, string>;
+	meanings: Record<string, string>;
+	ignore: string[];
+	bannedGifters: Record<string, string[]>;
+	styles?: StylesFile;
+	trusted?: Record<string, string[]>;
+	settings?: SettingsFile;
+};
+
+const DOCUMENT_DEFAULTS: Required<Documents> = {
+	themes: {},
+	meanings: {},
+	ignore: [],
+	bannedGifters: {},
+	// What StyleManager starts with when there is no styles document yet.
+	styles: { styles: DALLE_TEMPLATES, channels: {} },
+	trusted: {},
+	settings: {},
+};
+
+export class BackupManager {
+	constructor(
+		private readonly documentStorage: StorageBackend,
+		private readonly imageDataStore: ImageDataStore,
+		private readonly tokenFilePath: string | null = null,
+	) {}
+
+	async exportArchive(options: ExportOptions = {}): Promise<BackupArchive> {
+		const archive: BackupArchive = {
+			format: BACKUP_FORMAT,
+			version: BACKUP_VERSION,
+			createdAt: new Date().toISOString(),
+			schemaVersions: { ...SCHEMA_VERSIONS },
+			data: { ...(await this.readDocuments()), images: await this.readImages() },
+		};
+
+		if (options.includeTokens) {
+			const tokens = await this.readTokens();
+			if (tokens) {
+				archive.tokens = tokens;
+			}
+		}
+
+		return archive;
+	}
+
+	/**
+	 * Validates the whole archive before touching any state, so a broken archive never leaves a half import behind.
+	 * Merging keeps existing entries and lets the archive win on conflicts, replacing discards the current state.
+	 * Tokens are only restored when replacing, or when there are none yet.
+	 */
+	async importArchive(raw: unknown, mode: ImportMode): Promise<ImportResult> {
+		const archive = backupArchiveSchema.parse(raw);
+		const migrated = Object.fromEntries(
+			Object.entries(archive.data)
+				.filter(([, data]) => data !== undefined)
+				.map(([key, data]) => [
+					key,
+					migrateData(key as DataFileKey, archive.schemaVersions[key as DataFileKey] ?? 0, data),
+				]),
+		);
+		const { images, ...documents } = backupDataSchema.parse(migrated);
+
+		const next = mode === 'replace' ? documents : this.mergeDocuments(await this.readDocuments(), documents);
+		for (const [key, data] of Object.entries(next)) {
+			if (data === undefined) {
+				continue;
+			}
+			await this.documentStorage.writeDocument(key as DocumentKey, data);
+		}
+
+		if (mode === 'replace') {
+			await this.imageDataStore.clearImages();
+		}
+		const { newImages, skippedImages } = await this.withoutKnownImages(images);
+		const imported = await this.imageDataStore.importBroadcasterImages(newImages);
+
+		let tokens = false;
+		if (archive.tokens && this.tokenFilePath && (mode === 'replace' || !(await this.readTokens()))) {
+			await writeJsonFile(this.tokenFilePath, archive.tokens);
+			tokens = true;
+		}
+
+		return { mode, images: imported, skippedImages, tokens };
+	}
+
+	private async readDocuments(): Promise<Documents> {
+		return {
+			themes: (await this.documentStorage.readDocument('themes')) ?? DOCUMENT_DEFAULTS.themes,
+			meanings: (await this.documentStorage.readDocument('meanings')) ?? DOCUMENT_DEFAULTS.meanings,
+			ignore: (await this.documentStorage.readDocument('ignore')) ?? DOCUMENT_DEFAULTS.ignore,
+			bannedGifters: (await this.documentStorage.readDocument('bannedGifters')) ?? DOCUMENT_DEFAULTS.bannedGifters,
+			styles: (await this.documentStorage.readDocument('styles')) ?? DOCUMENT_DEFAULTS.styles,
+			trusted: (await this.documentStorage.readDocument('trusted')) ?? DOCUMENT_DEFAULTS.trusted,
+			settings: (await this.documentStorage.readDocument('settings')) ?? DOCUMENT_DEFAULTS.settings,
+		};
+	}
+
+	// Oldest first, so importing the archive assigns ids in the original order.
+	private async readImages(): Promise<BroadcasterImages> {
+		const images: BroadcasterImages = {};
+		for (const storedImage of (await this.imageDataStore.getImages()).reverse()) {
+			const { broadcaster, user } = storedImage;
+			// The id is assigned again on import, broadcaster and user are the keys of the archive.
+			const image: SingleImage & Partial<Pick<StoredImage, 'id' | 'broadcaster' | 'user'>> = { ...storedImage };
+			delete image.id;
+			delete image.broadcaster;
+			delete image.user;
+			images[broadcaster] ??= {};
+			images[broadcaster][user] ??= [];
+			images[broadcaster][user].push(image);
+		}
+		return images;
+	}
+
+	private async readTokens(): Promise<BackupArchive['tokens']> {
+		if (!this.tokenFilePath) {
+			return undefined;
+		}
+
+		try {
+			return await readJsonFile<BackupArchive['tokens']>(this.tokenFilePath);
+		} catch (error) {
+			console.log(`No usable tokens at ${this.tokenFilePath}`, error);
+			return undefined;
+		}
+	}
+
+	private mergeDocuments(current: Documents, archive: Documents): Documents {
+		const bannedGifters = this.mergeChannelLists(current.bannedGifters, archive.bannedGifters);
+
+		return {
+			themes: { ...current.themes, ...archive.themes },
+			meanings: { ...current.meanings, ...archive.meanings },
+			ignore: [...new Set([...current.ignore, ...archive.ignore])],
+			bannedGifters,
+			styles: this.mergeStyles(current.styles, archive.styles),
+			trusted: this.mergeChannelLists(current.trusted ?? {}, archive.trusted ?? {}),
+			settings: this.mergeSettings(current.settings ?? {}, archive.settings ?? {}),
+		};
+	}
+
+	private mergeSettings(current: SettingsFile, archive: SettingsFile): SettingsFile {
+		const merged = { ...current };
+		for (const [broadcaster, settings] of Object.entries(archive)) {
+			merged[broadcaster] = {
+				...merged[broadcaster],
+				...settings,
+				messages: { ...merged[broadcaster]?.messages, ...settings.messages },
+			};
+		}
+		return merged;
+	}
+
+	private mergeChannelLists(
+		current: Record<string, string[]>,
+		archive: Record<string, string[]>,
+	): Record<string, string[]> {
+		const merged = { ...current };
+		for (const [broadcaster, users] of Object.entries(archive)) {
+			merged[broadcaster] = [...new Set([...(merged[broadcaster] ?? []), ...users])];
+		}
+		return merged;
+	}
+
+	private mergeStyles(current: StylesFile | undefined, archive: StylesFile | undefined): StylesFile | undefined {
+		if (!current || !archive) {
+			return archive ?? current;
+		}
+
+		const styles = new Map(current.styles.map((style) => [style.keyword, style]));
+		for (const style of archive.styles) {
+			styles.set(style.keyword, style);
+		}
+		return {
+			styles: Array.from(styles.values()),
+			channels: { ...current.channels, ...archive.channels },
+		};
+	}
+
+	// Images are identified by their url per broadcaster, so importing the same archive twice adds nothing.
+	private async withoutKnownImages(
+		images: BroadcasterImages,
+	): Promise<{ newImages: BroadcasterImages; skippedImages: number }> {
+		const newImages: BroadcasterImages = {};
+		let skippedImages = 0;
+
+		for (const [broadcaster, users] of Object.entries(images)) {
+			const known = new Set((await this.imageDataStore.getImages({ broadcaster })).map((image) => image.image));
+			newImages[broadcaster] = {};
+			for (const [user, userImages] of Object.entries(users)) {
+				newImages[broadcaster][user] = userImages.filter((image) => {
+					if (known.has(image.image)) {
+						skippedImages++;
+						return false;
+					}
+					known.add(image.image);
+					return true;
+				});
+			}
+		}
+
+		return { newImages, skippedImages };
+	}
+}
@@ -1,16 +1,22 @@
-import { PathLike, promises as fs } from 'fs';
+import { StorageBackend } from '../storage/StorageBackend';
+import { bannedGiftersFileSchema } from '../schemas/dataFileSchemas';
 
 type BroadcasterBannedGiftersMap = Map<string, string[]>;
 
 export class BannedGifterManager {
 	private readonly broadcasterBannedGiftersMap: BroadcasterBannedGiftersMap = new Map();
 
-	constructor(private readonly filePath: PathLike) {}
+	constructor(private readonly storage: StorageBackend) {}
 
 	async loadBannedGifters(): Promise<void> {
 		try {
-			const data = await fs.readFile(this.filePath, 'utf-8');
-			const bannedGiftersData = JSON.parse(data) as Record<string, string[]>;
+			const data = await this.storage.readDocument<unknown>('bannedGifters');
+			if (data === undefined) {
+				console.log(`Banned gifters not found at ${this.storage.describe('bannedGifters')}, starting with empty list.`);
+				return;
+			}
+
+			const bannedGiftersData = bannedGiftersFileSchema.parse(data);
 			this.broadcasterBannedGiftersMap.clear();
 			for (const [broadcaster, bannedGifters] of Object.entries(bannedGiftersData)) {
 				this.broadcasterBannedGiftersMap.set(
@@ -19,11 +25,7 @@ export class BannedGifterManager {
 				);
 			}
 		} catch (error) {
-			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-				console.log(`Banned gifters file not found at ${this.filePath}, starting with empty list.`);
-			} else {
-				console.error(`Error reading banned gifters file at ${this.filePath}`, error);
-			}
+			console.error(`Error reading banned gifters at ${this.storage.describe('bannedGifters')}`, error);
 		}
 	}
 
@@ -55,9 +57,9 @@ export class BannedGifterManager {
 	async saveBannedGifters(): Promise<void> {
 		try {
 			const bannedGiftersData = Object.fromEntries(this.broadcasterBannedGiftersMap);
-			await fs.writeFile(this.filePath, JSON.stringify(bannedGiftersData, null, 4), 'utf-8');
+			await this.storage.writeDocument('bannedGifters', bannedGiftersData);
 		} catch (error) {
-			console.error(`Error saving banned gifters file at ${this.filePath}`, error);
+			console.error(`Error saving banned gifters at ${this.storage.describe('bannedGifters')}`, error);
 		}
 	}
 
@@ -0,0 +1,81 @@
+import { StorageBackend } from '../storage/StorageBackend';
+import { settingsFileSchema } from '../schemas/dataFileSchemas';
+import { DEFAULT_MESSAGES, MessageKey, MessageTemplates, MessageValues, renderMessage } from '../constants/messages';
+
+type ChannelSettings = {
+	messages: Partial<MessageTemplates>;
+};
+
+export type SettingsFile = Record<string, ChannelSettings>;
+
+type BroadcasterSettingsMap = Map<string, ChannelSettings>;
+
+/**
+ * Settings per broadcaster, currently the chat message templates that replace the default messages.
+ */
+export class ChannelSettingsManager {
+	private readonly broadcasterSettingsMap: BroadcasterSettingsMap = new Map();
+
+	constructor(private readonly storage: StorageBackend) {}
+
+	async loadSettings(): Promise<void> {
+		try {
+			const data = await this.storage.readDocument<unknown>('settings');
+			if (data === undefined) {
+				console.log(`Settings not found at ${this.storage.describe('settings')}, using the default messages.`);
+				return;
+			}
+
+			const settings = settingsFileSchema.parse(data);
+			this.broadcasterSettingsMap.clear();
+			for (const [broadcaster, channelSettings] of Object.entries(settings)) {
+				this.broadcasterSettingsMap.set(broadcaster.toLowerCase(), channelSettings);
+			}
+		} catch (error) {
+			console.error(`Error reading settings at ${this.storage.describe('settings')}`, error);
+		}
+	}
+
+	async saveSettings(): Promise<void> {
+		try {
+			await this.storage.writeDocument('settings', Object.fromEntries(this.broadcasterSettingsMap));
+		} catch (error) {
+			console.error(`Error saving settings at ${this.storage.describe('settings')}`, error);
+		}
+	}
+
+	getMessageTemplate(broadcaster: string, key: MessageKey): string {
+		return this.broadcasterSettingsMap.get(broadcaster.toLowerCase())?.messages[key] ?? DEFAULT_MESSAGES[key];
+	}
+
+	async setMessageTemplate(broadcaster: string, key: MessageKey, template: string): Promise<void> {
+		const lowerBroadcaster = broadcaster.toLowerCase();
+		const settings = this.broadcasterSettingsMap.get(lowerBroadcaster) ?? { messages: {} };
+		this.broadcasterSettingsMap.set(lowerBroadcaster, {
+			...settings,
+			messages: { ...settings.messages, [key]: template },
+		});
+		await this.saveSettings();
+	}
+
+	/**
+	 * Goes back to the default message. Returns false if the channel had no template of its own.
+	 */
+	async resetMessageTemplate(broadcaster: string, key: MessageKey): Promise<boolean> {
+		const lowerBroadcaster = broadcaster.toLowerCase();
+		const settings = this.broadcasterSettingsMap.get(lowerBroadcaster);
+		if (settings?.messages[key] === undefined) {
+			return false;
+		}
+
+		const messages = { ...settings.messages };
+		delete messages[key];
+		this.broadcasterSettingsMap.set(lowerBroadcaster, { ...settings, messages });
+		await this.saveSettings();
+		return true;
+	}
+
+	formatMessage(broadcaster: string, key: MessageKey, values: MessageValues): string {
+		return renderMessage(this.getMessageTemplate(broadcaster, key), values);
+	}
+}
@@ -0,0 +1,139 @@
+import {
+	ChannelEventHandlers,
+	ChannelEventSource,
+	CheerEvent,
+	RaidEvent,
+	RedemptionEvent,
+} from '../eventsub/ChannelEventSource';
+import { ChannelTriggers, triggersFileSchema } from '../schemas/triggerSchemas';
+import { EventData } from '../types/events';
+import { readJsonFile } from '../utils/persistence';
+
+/**
+ * Decides which cheers, raids and channel-point redemptions start a sweatling, per channel.
+ * Thresholds are checked when an event arrives, so reloading the file applies them right away.
+ * Enabling a trigger type the channel was not subscribed to takes effect after a restart.
+ */
+export class ChannelTriggerManager {
+	private defaultTriggers: ChannelTriggers = {};
+	private channelTriggers = new Map<string, ChannelTriggers>();
+
+	constructor(private readonly filePath: string) {}
+
+	async loadTriggers(): Promise<void> {
+		let data: unknown;
+		try {
+			data = await readJsonFile<unknown>(this.filePath);
+		} catch (error) {
+			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+				console.log(`Triggers not found at ${this.filePath}, only subs start a sweatling.`);
+			} else {
+				console.error(`Error reading triggers at ${this.filePath}`, error);
+			}
+			this.defaultTriggers = {};
+			this.channelTriggers.clear();
+			return;
+		}
+
+		const result = triggersFileSchema.safeParse(data);
+		if (!result.success) {
+			console.error(`Invalid triggers at ${this.filePath}, keeping the current ones`, result.error.message);
+			return;
+		}
+
+		this.defaultTriggers = result.data.default;
+		this.channelTriggers = new Map(
+			Object.entries(result.data.channels).map(([channel, triggers]) => [channel.toLowerCase(), triggers]),
+		);
+	}
+
+	getTriggers(broadcaster: string): ChannelTriggers {
+		return { ...this.defaultTriggers, ...this.channelTriggers.get(broadcaster.toLowerCase()) };
+	}
+
+	hasTriggers(broadcaster: string): boolean {
+		return Object.values(this.getTriggers(broadcaster)).some((trigger) => trigger?.enabled);
+	}
+
+	/**
+	 * Subscribes to the enabled trigger types of the channel and passes qualifying events on.
+	 */
+	subscribe(
+		source: ChannelEventSource,
+		broadcasterId: string,
+		broadcaster: string,
+		onEvent: (eventData: EventData) => void,
+	): void {
+		const { cheer, raid, redemption } = this.getTriggers(broadcaster);
+		const forward =
+			<T>(toEventData: (event: T) => EventData | undefined) =>
+			(event: T) => {
+				const eventData = toEventData(event);
+				if (eventData) {
+					onEvent(eventData);
+				}
+			};
+
+		const handlers: ChannelEventHandlers = {};
+		if (cheer?.enabled) {
+			handlers.onCheer = forward((event: CheerEvent) => this.fromCheer(event));
+		}
+		if (raid?.enabled) {
+			handlers.onRaid = forward((event: RaidEvent) => this.fromRaid(event));
+		}
+		if (redemption?.enabled) {
+			handlers.onRedemption = forward((event: RedemptionEvent) => this.fromRedemption(event));
+		}
+		source.subscribe(broadcasterId, handlers);
+	}
+
+	fromCheer(event: CheerEvent): EventData | undefined {
+		const trigger = this.getTriggers(event.broadcasterName).cheer;
+		if (!trigger?.enabled || event.bits < trigger.minBits) {
+			return undefined;
+		}
+
+		return {
+			broadcasterName: event.broadcasterName,
+			userName: event.userName || 'Anonymous',
+			userDisplayName: event.userDisplayName || 'Anonymous',
+			trigger: 'cheer',
+			bits: event.bits,
+		};
+	}
+
+	/**
+	 * The sweatling is drawn for the raiding streamer.
+	 */
+	fromRaid(event: RaidEvent): EventData | undefined {
+		const trigger = this.getTriggers(event.broadcasterName).raid;
+		if (!trigger?.enabled || event.viewers < trigger.minViewers) {
+			return undefined;
+		}
+
+		return {
+			broadcasterName: event.broadcasterName,
+			userName: event.raiderName,
+			userDisplayName: event.raiderDisplayName,
+			trigger: 'raid',
+			viewers: event.viewers,
+		};
+	}
+
+	fromRedemption(event: RedemptionEvent): EventData | undefined {
+		const trigger = this.getTriggers(event.broadcasterName).redemption;
+		const matches =
+			trigger?.rewardId === event.rewardId || trigger?.rewardTitle?.toLowerCase() === event.rewardTitle.toLowerCase();
+		if (!trigger?.enabled || !matches) {
+			return undefined;
+		}
+
+		return {
+			broadcasterName: event.broadcasterName,
+			userName: event.userName,
+			userDisplayName: event.userDisplayName,
+			trigger: 'redemption',
+			rewardTitle: event.rewardTitle,
+		};
+	}
+}
@@ -0,0 +1,173 @@
+import { nanoid } from 'nanoid';
+import { SqliteDatabase } from '../utils/database';
+import { EventData } from '../types/events';
+import { GenerationJob, GenerationJobResult, GenerationJobState } from '../types/jobs';
+
+type JobRow = {
+	id: string;
+	broadcaster: string;
+	user_name: string;
+	user_display_name: string;
+	is_gifting: number;
+	details: string | null;
+	state: GenerationJobState;
+	attempts: number;
+	result: string | null;
+	error: string | null;
+	created_at: string;
+	updated_at: string;
+};
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS generation_jobs (
+		id TEXT PRIMARY KEY,
+		broadcaster TEXT NOT NULL,
+		user_name TEXT NOT NULL,
+		user_display_name TEXT NOT NULL,
+		is_gifting INTEGER NOT NULL DEFAULT 0,
+		state TEXT NOT NULL,
+		attempts INTEGER NOT NULL DEFAULT 0,
+		result TEXT,
+		error TEXT,
+		created_at TEXT NOT NULL,
+		updated_at TEXT NOT NULL
+	);
+
+	CREATE INDEX IF NOT EXISTS idx_generation_jobs_state ON generation_jobs (state, broadcaster, created_at);
+`;
+
+// Columns added after the initial schema, appended to existing databases on startup.
+const ADDED_COLUMNS: Record<string, string> = {
+	details: 'TEXT',
+};
+
+// Flagged jobs wait for the Discord admin, resuming them would announce them without approval.
+const INACTIVE_STATES: GenerationJobState[] = ['awaiting_approval', 'announced', 'rejected', 'skipped', 'failed'];
+
+export class GenerationJobQueue {
+	private readonly activeJobs = new Set<string>();
+
+	constructor(private readonly db: SqliteDatabase) {
+		this.db.exec(SCHEMA);
+		this.addMissingColumns();
+	}
+
+	enqueue(eventData: EventData): GenerationJob {
+		const now = new Date().toISOString();
+		const id = nanoid(14);
+		const { broadcasterName, userName, userDisplayName, isGifting, ...details } = eventData;
+		this.db
+			.prepare(
+				`INSERT INTO generation_jobs (
+					id, broadcaster, user_name, user_display_name, is_gifting, details, state, created_at, updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+			)
+			.run(
+				id,
+				broadcasterName.toLowerCase(),
+				userName,
+				userDisplayName,
+				isGifting ? 1 : 0,
+				Object.keys(details).length ? JSON.stringify(details) : null,
+				now,
+				now,
+			);
+		return this.getJob(id)!;
+	}
+
+	getJob(id: string): GenerationJob | undefined {
+		const row = this.db.prepare('SELECT * FROM generation_jobs WHERE id = ?').get(id) as JobRow | undefined;
+		return row ? this.toJob(row) : undefined;
+	}
+
+	/**
+	 * Returns jobs that are neither finished nor waiting for approval and are not being processed by this process,
+	 * oldest first.
+	 */
+	getUnfinishedJobs(broadcaster?: string): GenerationJob[] {
+		const placeholders = INACTIVE_STATES.map(() => '?').join(', ');
+		let sql = `SELECT * FROM generation_jobs WHERE state NOT IN (${placeholders})`;
+		const params: string[] = [...INACTIVE_STATES];
+		if (broadcaster) {
+			sql += ' AND broadcaster = ?';
+			params.push(broadcaster.toLowerCase());
+		}
+		sql += ' ORDER BY created_at ASC';
+
+		const rows = this.db.prepare(sql).all(...params) as JobRow[];
+		return rows.map((row) => this.toJob(row)).filter((job) => !this.activeJobs.has(job.id));
+	}
+
+	/**
+	 * Marks a job as being processed by this process and counts the attempt unless told otherwise.
+	 * Returns false if the job is already being processed.
+	 */
+	claim(id: string, countAttempt = true): boolean {
+		if (this.activeJobs.has(id)) {
+			return false;
+		}
+		this.activeJobs.add(id);
+		this.db
+			.prepare('UPDATE generation_jobs SET attempts = attempts + ?, updated_at = ? WHERE id = ?')
+			.run(countAttempt ? 1 : 0, new Date().toISOString(), id);
+		return true;
+	}
+
+	release(id: string): void {
+		this.activeJobs.delete(id);
+	}
+
+	setState(id: string, state: GenerationJobState, error: string | null = null): void {
+		this.db
+			.prepare('UPDATE generation_jobs SET state = ?, error = ?, updated_at = ? WHERE id = ?')
+			.run(state, error, new Date().toISOString(), id);
+	}
+
+	/**
+	 * Moves a job to another state only if it is still in the expected one, so that two callers cannot both take it.
+	 * Returns false if the job was in another state.
+	 */
+	transition(id: string, from: GenerationJobState, to: GenerationJobState): boolean {
+		const { changes } = this.db
+			.prepare('UPDATE generation_jobs SET state = ?, error = NULL, updated_at = ? WHERE id = ? AND state = ?')
+			.run(to, new Date().toISOString(), id, from);
+		return changes === 1;
+	}
+
+	saveResult(id: string, result: GenerationJobResult): void {
+		this.db
+			.prepare('UPDATE generation_jobs SET result = ?, updated_at = ? WHERE id = ?')
+			.run(JSON.stringify(result), new Date().toISOString(), id);
+	}
+
+	private toJob(row: JobRow): GenerationJob {
+		return {
+			id: row.id,
+			eventData: {
+				...(row.details ? (JSON.parse(row.details) as Partial<EventData>) : {}),
+				broadcasterName: row.broadcaster,
+				userName: row.user_name,
+				userDisplayName: row.user_display_name,
+				isGifting: row.is_gifting === 1,
+			},
+			state: row.state,
+			attempts: row.attempts,
+			result: row.result ? (JSON.parse(row.result) as GenerationJobResult) : null,
+			error: row.error,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private addMissingColumns(): void {
+		const existing = new Set(
+			(this.db.prepare('PRAGMA table_info(generation_jobs)').all() as { name: string }[]).map((column) => column.name),
+		);
+		for (const [name, definition] of Object.entries(ADDED_COLUMNS)) {
+			if (!existing.has(name)) {
+				this.db.exec(`ALTER TABLE generation_jobs ADD COLUMN ${name} ${definition}`);
+			}
+		}
+	}
+}
@@ -0,0 +1,97 @@
+import { ImageOptions } from '../providers/ImageProvider';
+import { GenerationRule, generationRulesFileSchema } from '../schemas/generationRuleSchemas';
+import { readJsonFile } from '../utils/persistence';
+
+export type SubscriptionDetails = {
+	plan?: string;
+	months?: number;
+	streak?: number;
+};
+
+export type GenerationOptions = {
+	image: ImageOptions;
+	flavors: string[];
+	styles: string[];
+};
+
+const PLAN_NAMES: Record<string, string> = {
+	'1000': 'Tier 1',
+	'2000': 'Tier 2',
+	'3000': 'Tier 3',
+	prime: 'Prime',
+};
+
+/**
+ * Maps the sub plan, cumulative months and streak of an event to image options, extra prompt flavour and
+ * a style pool. Rules apply in order, later rules override the image options and style pool of earlier ones
+ * while flavours add up. Flavours may use `__MONTHS__`, `__STREAK__` and `__PLAN__`.
+ */
+export class GenerationRuleManager {
+	private defaultRules: GenerationRule[] = [];
+	private channelRules = new Map<string, GenerationRule[]>();
+
+	constructor(private readonly filePath: string) {}
+
+	async loadRules(): Promise<void> {
+		let data: unknown;
+		try {
+			data = await readJsonFile<unknown>(this.filePath);
+		} catch (error) {
+			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+				console.log(`Generation rules not found at ${this.filePath}, every sub gets the same treatment.`);
+			} else {
+				console.error(`Error reading generation rules at ${this.filePath}`, error);
+			}
+			this.defaultRules = [];
+			this.channelRules.clear();
+			return;
+		}
+
+		const result = generationRulesFileSchema.safeParse(data);
+		if (!result.success) {
+			console.error(`Invalid generation rules at ${this.filePath}, keeping the current ones`, result.error.message);
+			return;
+		}
+
+		this.defaultRules = result.data.default;
+		this.channelRules = new Map(
+			Object.entries(result.data.channels).map(([channel, rules]) => [channel.toLowerCase(), rules]),
+		);
+	}
+
+	getOptions(broadcaster: string, details: SubscriptionDetails): GenerationOptions {
+		const options: GenerationOptions = { image: {}, flavors: [], styles: [] };
+		const rules = [...this.defaultRules, ...(this.channelRules.get(broadcaster.toLowerCase()) ?? [])];
+		for (const rule of rules.filter((rule) => this.matches(rule, details))) {
+			if (rule.quality) {
+				options.image.quality = rule.quality;
+			}
+			if (rule.size) {
+				options.image.size = rule.size;
+			}
+			if (rule.styles) {
+				options.styles = rule.styles;
+			}
+			if (rule.flavor) {
+				options.flavors.push(this.fillFlavor(rule.flavor, details));
+			}
+		}
+		return options;
+	}
+
+	private matches({ match }: GenerationRule, { plan, months = 0, streak = 0 }: SubscriptionDetails): boolean {
+		return (
+			(!match.plans || (plan !== undefined && match.plans.some((p) => p.toLowerCase() === plan.toLowerCase()))) &&
+			(match.minMonths === undefined || months >= match.minMonths) &&
+			(match.monthsMultipleOf === undefined || (months > 0 && months % match.monthsMultipleOf === 0)) &&
+			(match.minStreak === undefined || streak >= match.minStreak)
+		);
+	}
+
+	private fillFlavor(flavor: string, { plan, months = 0, streak = 0 }: SubscriptionDetails): string {
+		return flavor
+			.replaceAll('__MONTHS__', String(months))
+			.replaceAll('__STREAK__', String(streak))
+			.replaceAll('__PLAN__', (plan && PLAN_NAMES[plan.toLowerCase()]) ?? plan ?? '');
+	}
+}
@@ -0,0 +1,189 @@
+import { EventData } from '../types/events';
+import { SqliteDatabase } from '../utils/database';
+
+export type GiftBatchMode = 'group' | 'reduced';
+
+export type GiftRecipient = {
+	userName: string;
+	userDisplayName: string;
+	plan?: string;
+	months?: number;
+};
+
+export type GiftBatch = {
+	broadcasterName: string;
+	gifterName: string | null;
+	gifterDisplayName: string | null;
+	isCommunityGift: boolean;
+	giftCount: number;
+	plan?: string;
+	recipients: GiftRecipient[];
+};
+
+type GiftBatchRow = {
+	key: string;
+	batch: string;
+};
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS gift_batches (
+		key TEXT PRIMARY KEY,
+		broadcaster TEXT NOT NULL,
+		batch TEXT NOT NULL,
+		updated_at TEXT NOT NULL
+	);
+`;
+
+/**
+ * Collects the community sub and the individual gift events of one gifter, which Twitch sends in quick succession,
+ * and hands them over as a single batch once no event arrived for the window.
+ * Open batches are kept in the database so a restart during the window does not lose the gifts.
+ */
+export class GiftBatcher {
+	private readonly batches = new Map<string, { batch: GiftBatch; timeout: NodeJS.Timeout }>();
+
+	constructor(
+		private readonly db: SqliteDatabase,
+		private readonly windowMs: number,
+		private readonly onBatch: (batch: GiftBatch) => void,
+	) {
+		this.db.exec(SCHEMA);
+	}
+
+	/**
+	 * Picks up the batches of a channel that were still open when the bot stopped, they are handed over after the window.
+	 * Returns the number of restored batches.
+	 */
+	restore(broadcasterName: string): number {
+		const rows = this.db
+			.prepare('SELECT key, batch FROM gift_batches WHERE broadcaster = ?')
+			.all(broadcasterName.toLowerCase()) as GiftBatchRow[];
+		const restored = rows.filter((row) => !this.batches.has(row.key));
+		for (const row of restored) {
+			this.schedule(row.key, JSON.parse(row.batch) as GiftBatch);
+		}
+		return restored.length;
+	}
+
+	addCommunityGift(
+		broadcasterName: string,
+		gifterName: string | null,
+		gifterDisplayName: string | null,
+		count: number,
+		plan?: string,
+	): void {
+		const batch = this.getBatch(broadcasterName, gifterName, gifterDisplayName);
+		batch.isCommunityGift = true;
+		batch.plan = plan;
+		batch.giftCount = Math.max(count, batch.recipients.length);
+		this.save(broadcasterName, gifterName, batch);
+	}
+
+	addGift(
+		broadcasterName: string,
+		gifterName: string | null,
+		gifterDisplayName: string | null,
+		recipient: GiftRecipient,
+	): void {
+		const batch = this.getBatch(broadcasterName, gifterName, gifterDisplayName);
+		batch.recipients.push(recipient);
+		batch.giftCount = Math.max(batch.giftCount, batch.recipients.length);
+		this.save(broadcasterName, gifterName, batch);
+	}
+
+	private getBatch(broadcasterName: string, gifterName: string | null, gifterDisplayName: string | null): GiftBatch {
+		const key = batchKey(broadcasterName, gifterName);
+		const existing = this.batches.get(key);
+		if (existing) {
+			clearTimeout(existing.timeout);
+		}
+
+		const batch = existing?.batch ?? {
+			broadcasterName,
+			gifterName,
+			gifterDisplayName,
+			isCommunityGift: false,
+			giftCount: 0,
+			recipients: [],
+		};
+		this.schedule(key, batch);
+		return batch;
+	}
+
+	private schedule(key: string, batch: GiftBatch): void {
+		this.batches.set(key, { batch, timeout: setTimeout(() => this.release(key), this.windowMs) });
+	}
+
+	private save(broadcasterName: string, gifterName: string | null, batch: GiftBatch): void {
+		this.db
+			.prepare(
+				`INSERT INTO gift_batches (key, broadcaster, batch, updated_at) VALUES (?, ?, ?, ?)
+				ON CONFLICT (key) DO UPDATE SET batch = excluded.batch, updated_at = excluded.updated_at`,
+			)
+			.run(
+				batchKey(broadcasterName, gifterName),
+				broadcasterName.toLowerCase(),
+				JSON.stringify(batch),
+				new Date().toISOString(),
+			);
+	}
+
+	private release(key: string): void {
+		const entry = this.batches.get(key);
+		if (!entry) {
+			return;
+		}
+
+		clearTimeout(entry.timeout);
+		this.batches.delete(key);
+		this.db.prepare('DELETE FROM gift_batches WHERE key = ?').run(key);
+		this.onBatch(entry.batch);
+	}
+}
+
+function batchKey(broadcasterName: string, gifterName: string | null): string {
+	return `${broadcasterName.toLowerCase()}:${gifterName?.toLowerCase() ?? ''}`;
+}
+
+/**
+ * Turns a batch into the generations to run. A lone gift keeps its own sweatling for the recipient.
+ * Anything bigger becomes one group scene of the gifter naming up to `maxRecipients` recipients, and in reduced mode
+ * also sweatlings for that many recipients, which are only posted to Discord so chat gets a single message.
+ */
+export function planGiftBatch(
+	batch: GiftBatch,
+	mode: GiftBatchMode,
+	maxRecipients: number,
+	isIgnored: (userName: string) => boolean = () => false,
+): EventData[] {
+	const { broadcasterName, gifterName, gifterDisplayName } = batch;
+	// Users who opted out with !noai are neither drawn nor named, they still count towards the number of gifts.
+	const recipients = batch.recipients.filter((recipient) => !isIgnored(recipient.userName));
+	if (!batch.isCommunityGift) {
+		// Without a community sub there is no gifter sweatling, and anonymous gifts never got one for the recipient.
+		if (!gifterName) {
+			return [];
+		}
+		if (batch.recipients.length === 1) {
+			return recipients.map((recipient) => ({ broadcasterName, ...recipient }));
+		}
+	}
+
+	const shownRecipients = recipients.slice(0, maxRecipients);
+	const gifter: EventData = {
+		broadcasterName,
+		userName: gifterName || 'Anonymous',
+		userDisplayName: gifterDisplayName || 'Anonymous',
+		isGifting: true,
+		...(batch.plan && { plan: batch.plan }),
+		giftCount: batch.giftCount,
+		recipients: shownRecipients.map((recipient) => recipient.userDisplayName),
+	};
+
+	// Recipients of anonymous gifts never got a sweatling of their own.
+	if (mode === 'group' || !gifterName) {
+		return [gifter];
+	}
+
+	return [gifter, ...shownRecipients.map((recipient) => ({ broadcasterName, ...recipient, quiet: true }))];
+}
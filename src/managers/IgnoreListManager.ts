@@ -1,27 +1,33 @@
-import { promises as fs } from 'fs';
+import { StorageBackend } from '../storage/StorageBackend';
+import { ignoreFileSchema } from '../schemas/dataFileSchemas';
 
 export class IgnoreListManager {
 	private ignoreList: Set<string>;
-	private readonly filePath: string;
+	private readonly storage: StorageBackend;
 
-	constructor(filePath: string) {
-		this.filePath = filePath;
+	constructor(storage: StorageBackend) {
+		this.storage = storage;
 		this.ignoreList = new Set();
 	}
 
 	public async loadIgnoreList(): Promise<void> {
 		try {
-			const data = await fs.readFile(this.filePath, 'utf-8');
-			const ignoreList = JSON.parse(data) as string[];
-			this.ignoreList = new Set(ignoreList);
+			const data = await this.storage.readDocument<unknown>('ignore');
+			if (data === undefined) {
+				// create the ignore list if it doesn't exist
+				await this.saveIgnoreList();
+				return;
+			}
+
+			this.ignoreList = new Set(ignoreFileSchema.parse(data));
 		} catch (error) {
-			// create file if it doesn't exist
-			await this.saveIgnoreList();
+			// never overwrite an unreadable ignore list with an empty one
+			console.error(`Error reading ignore list at ${this.storage.describe('ignore')}`, error);
 		}
 	}
 
 	public async saveIgnoreList(): Promise<void> {
-		await fs.writeFile(this.filePath, JSON.stringify(Array.from(this.ignoreList), null, 4), 'utf-8');
+		await this.storage.writeDocument('ignore', Array.from(this.ignoreList));
 	}
 
 	public async addToIgnoreList(username: string): Promise<void> {
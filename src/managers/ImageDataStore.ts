@@ -1,60 +1,72 @@
-import { PathLike, promises as fs } from 'fs';
-
-// TODO: These types should ideally be moved to a central types file later
-type SingleImage = {
-	image: string;
-	analysis: string;
-	revisedPrompt: string;
-	date: string;
-};
-
-type BroadcasterImages = {
-	[broadcaster: string]: {
-		[user: string]: SingleImage[];
-	};
-};
+import { BroadcasterImages, ImageQuery, SingleImage, StoredImage, withGenerationDefaults } from '../types/images';
+import { ImageCountQuery, NewImage, StorageBackend } from '../storage/StorageBackend';
 
 export class ImageDataStore {
-	constructor(private readonly filePath: PathLike) {}
+	constructor(private readonly storage: StorageBackend) {}
 
-	// TODO: This is seriously inefficient, we need to store the data in a database ASAP
 	async storeImageData(broadcaster: string, user: string, imageData: SingleImage): Promise<number> {
-		let broadcasterImageData: BroadcasterImages = {};
-		const lowerBroadcaster = broadcaster.toLowerCase();
-		const lowerUser = user.toLowerCase();
-
-		try {
-			const fileContent = await fs.readFile(this.filePath, 'utf-8');
-			broadcasterImageData = JSON.parse(fileContent);
-		} catch (error) {
-			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-				console.log(`Images file not found at ${this.filePath}, starting with empty data.`);
-			} else {
-				console.error(`Error reading image file at ${this.filePath}`, error);
-			}
-		}
+		await this.storage.insertImages([{ broadcaster, user, image: imageData }]);
+		return this.countImages({ broadcaster });
+	}
+
+	async getImages(query: ImageQuery = {}): Promise<StoredImage[]> {
+		return this.storage.queryImages(query);
+	}
 
-		const broadcasterMap = broadcasterImageData[lowerBroadcaster] || {};
-		const userImages = broadcasterMap[lowerUser] || [];
-		userImages.push(imageData);
+	async getUserImages(broadcaster: string, user: string): Promise<StoredImage[]> {
+		return this.getImages({ broadcaster, user });
+	}
 
-		broadcasterMap[lowerUser] = userImages;
-		broadcasterImageData[lowerBroadcaster] = broadcasterMap;
+	async getLatestUserImage(broadcaster: string, user: string): Promise<StoredImage | undefined> {
+		const [latest] = await this.getImages({ broadcaster, user, limit: 1 });
+		return latest;
+	}
 
-		try {
-			await fs.writeFile(this.filePath, JSON.stringify(broadcasterImageData, null, 4), 'utf-8');
-		} catch (error) {
-			console.error(`Error saving image data file at ${this.filePath}`, error);
+	async getRandomUserImage(broadcaster: string, user: string): Promise<StoredImage | undefined> {
+		const total = await this.countImages({ broadcaster, user });
+		if (total === 0) {
+			return undefined;
 		}
 
-		let totalImages = 0;
-		const currentBroadcasterData = broadcasterImageData[lowerBroadcaster];
-		if (currentBroadcasterData) {
-			for (const userData of Object.values(currentBroadcasterData)) {
-				totalImages += userData.length;
+		const [image] = await this.getImages({ broadcaster, user, limit: 1, offset: Math.floor(Math.random() * total) });
+		return image;
+	}
+
+	async getBroadcasterImages(broadcaster: string, limit?: number, offset?: number): Promise<StoredImage[]> {
+		return this.getImages({ broadcaster, limit, offset });
+	}
+
+	async getBroadcasters(): Promise<string[]> {
+		return this.storage.listBroadcasters();
+	}
+
+	async countImages(query: ImageCountQuery = {}): Promise<number> {
+		return this.storage.countImages(query);
+	}
+
+	/**
+	 * Imports the legacy images.json structure in a single batch.
+	 * Returns the number of imported images.
+	 */
+	async importBroadcasterImages(data: BroadcasterImages): Promise<number> {
+		const images: NewImage[] = [];
+		for (const [broadcaster, users] of Object.entries(data)) {
+			for (const [user, userImages] of Object.entries(users)) {
+				for (const image of userImages) {
+					images.push({ broadcaster, user, image: withGenerationDefaults(image) });
+				}
 			}
 		}
 
-		return totalImages;
+		await this.storage.insertImages(images);
+		return images.length;
+	}
+
+	async clearImages(): Promise<void> {
+		await this.storage.clearImages();
+	}
+
+	async close(): Promise<void> {
+		await this.storage.close();
 	}
 }
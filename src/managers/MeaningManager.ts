@@ -1,26 +1,28 @@
-import { PathLike, promises as fs } from 'fs';
+import { StorageBackend } from '../storage/StorageBackend';
+import { meaningsFileSchema } from '../schemas/dataFileSchemas';
 
 type UserMeaningMap = Map<string, string>;
 
 export class MeaningManager {
 	private readonly userMeaningMap: UserMeaningMap = new Map();
 
-	constructor(private readonly filePath: PathLike) {}
+	constructor(private readonly storage: StorageBackend) {}
 
 	async loadMeanings(): Promise<void> {
 		try {
-			const data = await fs.readFile(this.filePath, 'utf-8');
-			const meanings = JSON.parse(data) as Record<string, string>;
+			const data = await this.storage.readDocument<unknown>('meanings');
+			if (data === undefined) {
+				console.log(`Meanings not found at ${this.storage.describe('meanings')}, starting with empty meanings.`);
+				return;
+			}
+
+			const meanings = meaningsFileSchema.parse(data);
 			this.userMeaningMap.clear();
 			Object.entries(meanings).forEach(([user, meaning]) => {
 				this.userMeaningMap.set(user.toLowerCase(), meaning);
 			});
 		} catch (error) {
-			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-				console.log(`Meanings file not found at ${this.filePath}, starting with empty meanings.`);
-			} else {
-				console.error(`Error reading meanings file at ${this.filePath}`, error);
-			}
+			console.error(`Error reading meanings at ${this.storage.describe('meanings')}`, error);
 		}
 	}
 
@@ -40,9 +42,9 @@ export class MeaningManager {
 	async saveMeanings(): Promise<void> {
 		try {
 			const meanings = Object.fromEntries(this.userMeaningMap);
-			await fs.writeFile(this.filePath, JSON.stringify(meanings, null, 4), 'utf-8');
+			await this.storage.writeDocument('meanings', meanings);
 		} catch (error) {
-			console.error(`Error saving meanings file at ${this.filePath}`, error);
+			console.error(`Error saving meanings at ${this.storage.describe('meanings')}`, error);
 		}
 	}
 
@@ -0,0 +1,122 @@
+import { StorageBackend } from '../storage/StorageBackend';
+import { trustedFileSchema } from '../schemas/dataFileSchemas';
+import { Role, ROLES } from '../constants/permissions';
+
+type BroadcasterTrustedUsersMap = Map<string, string[]>;
+
+/**
+ * The part of a chat message's user info that roles are read from, badges are keyed by name.
+ */
+export type ChatUserInfo = {
+	userName: string;
+	badges: Map<string, string>;
+};
+
+const MOD_BADGES = ['moderator', 'lead_moderator'];
+
+/**
+ * Decides who may run which command, from the chat badges of the user, the per-channel trusted users
+ * and the global admins.
+ */
+export class PermissionManager {
+	private readonly broadcasterTrustedUsersMap: BroadcasterTrustedUsersMap = new Map();
+
+	constructor(
+		private readonly storage: StorageBackend,
+		private readonly admins: Set<string>,
+		private readonly commandRoles: Record<string, Role>,
+	) {}
+
+	async loadTrustedUsers(): Promise<void> {
+		try {
+			const data = await this.storage.readDocument<unknown>('trusted');
+			if (data === undefined) {
+				console.log(`Trusted users not found at ${this.storage.describe('trusted')}, starting with empty list.`);
+				return;
+			}
+
+			const trustedData = trustedFileSchema.parse(data);
+			this.broadcasterTrustedUsersMap.clear();
+			for (const [broadcaster, users] of Object.entries(trustedData)) {
+				this.broadcasterTrustedUsersMap.set(
+					broadcaster.toLowerCase(),
+					users.map((user) => user.toLowerCase()),
+				);
+			}
+		} catch (error) {
+			console.error(`Error reading trusted users at ${this.storage.describe('trusted')}`, error);
+		}
+	}
+
+	/**
+	 * Returns false if the user was already trusted.
+	 */
+	async addTrustedUser(broadcaster: string, user: string): Promise<boolean> {
+		const lowerBroadcaster = broadcaster.toLowerCase();
+		const lowerUser = user.toLowerCase();
+		const trustedUsers = this.broadcasterTrustedUsersMap.get(lowerBroadcaster) ?? [];
+		if (trustedUsers.includes(lowerUser)) {
+			return false;
+		}
+
+		this.broadcasterTrustedUsersMap.set(lowerBroadcaster, [...trustedUsers, lowerUser]);
+		await this.saveTrustedUsers();
+		return true;
+	}
+
+	async removeTrustedUser(broadcaster: string, user: string): Promise<boolean> {
+		const lowerBroadcaster = broadcaster.toLowerCase();
+		const trustedUsers = this.broadcasterTrustedUsersMap.get(lowerBroadcaster) ?? [];
+		const remaining = trustedUsers.filter((trustedUser) => trustedUser !== user.toLowerCase());
+		if (remaining.length === trustedUsers.length) {
+			return false;
+		}
+
+		this.broadcasterTrustedUsersMap.set(lowerBroadcaster, remaining);
+		await this.saveTrustedUsers();
+		return true;
+	}
+
+	async saveTrustedUsers(): Promise<void> {
+		try {
+			await this.storage.writeDocument('trusted', Object.fromEntries(this.broadcasterTrustedUsersMap));
+		} catch (error) {
+			console.error(`Error saving trusted users at ${this.storage.describe('trusted')}`, error);
+		}
+	}
+
+	getTrustedUsers(broadcaster: string): string[] {
+		return [...(this.broadcasterTrustedUsersMap.get(broadcaster.toLowerCase()) ?? [])];
+	}
+
+	/**
+	 * Returns the highest role of the user in the channel.
+	 */
+	getRole(broadcaster: string, { userName, badges }: ChatUserInfo): Role {
+		const lowerUserName = userName.toLowerCase();
+		if (this.admins.has(lowerUserName)) {
+			return 'admin';
+		}
+		if (badges.has('broadcaster') || lowerUserName === broadcaster.toLowerCase()) {
+			return 'broadcaster';
+		}
+		if (MOD_BADGES.some((badge) => badges.has(badge))) {
+			return 'mod';
+		}
+		if (this.getTrustedUsers(broadcaster).includes(lowerUserName)) {
+			return 'trusted';
+		}
+		if (badges.has('vip')) {
+			return 'vip';
+		}
+		return 'viewer';
+	}
+
+	getRequiredRole(command: string): Role {
+		return this.commandRoles[command.toLowerCase()] ?? 'viewer';
+	}
+
+	canRunCommand(command: string, broadcaster: string, user: ChatUserInfo): boolean {
+		return ROLES.indexOf(this.getRole(broadcaster, user)) >= ROLES.indexOf(this.getRequiredRole(command));
+	}
+}
@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { DEFAULT_PROMPT_SET, PromptSet } from '../constants/prompts';
+import { PromptAssignment, promptAssignmentsFileSchema, promptSetFileSchema } from '../schemas/promptSchemas';
+import { readJsonFile } from '../utils/persistence';
+
+export const PROMPT_ASSIGNMENTS_FILE_NAME = 'assignments.json';
+
+export function getPromptVersion(promptSet: PromptSet): string {
+	return `${promptSet.name}@${promptSet.version}`;
+}
+
+/**
+ * Loads prompt sets from `<name>.json` files in the prompts directory, each identified by `name@version`.
+ * `assignments.json` in the same directory picks the version per channel, optionally as an A/B split.
+ * The built-in prompts are always available as `default@1`.
+ */
+export class PromptManager {
+	private promptSets = new Map<string, PromptSet>();
+	private defaultVersion = getPromptVersion(DEFAULT_PROMPT_SET);
+	private assignments = new Map<string, PromptAssignment>();
+
+	constructor(
+		private readonly promptsDir: string,
+		private readonly random: () => number = Math.random,
+	) {
+		this.promptSets.set(this.defaultVersion, DEFAULT_PROMPT_SET);
+	}
+
+	async loadPrompts(): Promise<void> {
+		let fileNames: string[];
+		try {
+			fileNames = await fs.readdir(this.promptsDir);
+		} catch (error) {
+			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+				console.log(`Prompts not found at ${this.promptsDir}, using the built-in prompts.`);
+				this.promptSets = new Map([[getPromptVersion(DEFAULT_PROMPT_SET), DEFAULT_PROMPT_SET]]);
+				this.defaultVersion = getPromptVersion(DEFAULT_PROMPT_SET);
+				this.assignments.clear();
+				return;
+			}
+			throw error;
+		}
+
+		const promptSets = new Map<string, PromptSet>([[getPromptVersion(DEFAULT_PROMPT_SET), DEFAULT_PROMPT_SET]]);
+		for (const fileName of fileNames.filter((name) => name.endsWith('.json')).sort()) {
+			if (fileName === PROMPT_ASSIGNMENTS_FILE_NAME) {
+				continue;
+			}
+
+			const filePath = path.join(this.promptsDir, fileName);
+			try {
+				const promptSet = promptSetFileSchema.parse(await readJsonFile<unknown>(filePath));
+				promptSets.set(getPromptVersion(promptSet), promptSet);
+			} catch (error) {
+				console.error(`Error reading prompt set at ${filePath}, skipping it`, error);
+			}
+		}
+		this.promptSets = promptSets;
+
+		await this.loadAssignments();
+	}
+
+	getPromptVersions(): string[] {
+		return Array.from(this.promptSets.keys()).sort();
+	}
+
+	getAssignment(broadcaster: string): PromptAssignment {
+		return this.assignments.get(broadcaster.toLowerCase()) ?? this.defaultVersion;
+	}
+
+	/**
+	 * Returns the prompt set for the next generation in the channel. With a split assignment, every call rolls again.
+	 */
+	getPromptSet(broadcaster: string): PromptSet {
+		const assignment = this.getAssignment(broadcaster);
+		const version =
+			typeof assignment === 'string'
+				? assignment
+				: this.random() * 100 < assignment.variantPercentage
+					? assignment.variant
+					: assignment.control;
+		return this.promptSets.get(version) ?? DEFAULT_PROMPT_SET;
+	}
+
+	private async loadAssignments(): Promise<void> {
+		const filePath = path.join(this.promptsDir, PROMPT_ASSIGNMENTS_FILE_NAME);
+		let data: unknown;
+		try {
+			data = await readJsonFile<unknown>(filePath);
+		} catch (error) {
+			if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+				console.error(`Error reading prompt assignments at ${filePath}`, error);
+			}
+			this.defaultVersion = getPromptVersion(DEFAULT_PROMPT_SET);
+			this.assignments.clear();
+			return;
+		}
+
+		const result = promptAssignmentsFileSchema.safeParse(data);
+		if (!result.success) {
+			console.error(`Invalid prompt assignments at ${filePath}, keeping the current ones`, result.error.message);
+			// The current ones may use prompt sets that are gone after the reload.
+			this.applyAssignments(filePath, this.defaultVersion, Object.fromEntries(this.assignments));
+			return;
+		}
+
+		const { default: defaultVersion, channels } = result.data;
+		this.applyAssignments(filePath, defaultVersion, channels);
+	}
+
+	// Unknown versions are dropped, so a typo falls back to the default instead of failing every generation.
+	private applyAssignments(
+		filePath: string,
+		defaultVersion: string | undefined,
+		channels: Record<string, PromptAssignment>,
+	): void {
+		const isKnown = (version: string, context: string) => {
+			if (this.promptSets.has(version)) {
+				return true;
+			}
+			console.error(`Unknown prompt version ${version} for ${context} in ${filePath}, ignoring it`);
+			return false;
+		};
+
+		this.defaultVersion =
+			defaultVersion && isKnown(defaultVersion, 'the default') ? defaultVersion : getPromptVersion(DEFAULT_PROMPT_SET);
+		this.assignments = new Map(
+			Object.entries(channels)
+				.filter(([channel, assignment]) =>
+					typeof assignment === 'string'
+						? isKnown(assignment, channel)
+						: isKnown(assignment.control, channel) && isKnown(assignment.variant, channel),
+				)
+				.map(([channel, assignment]) => [channel.toLowerCase(), assignment]),
+		);
+	}
+}
@@ -0,0 +1,137 @@
+import { SqliteDatabase } from '../utils/database';
+import { getPrice, PriceTable } from '../constants/prices';
+import { ImageOptions } from '../providers/ImageProvider';
+
+export type SpendKind = 'chat' | 'image';
+
+export type BudgetCaps = {
+	daily?: number;
+	monthly?: number;
+};
+
+export type BudgetStatus = {
+	daily: number;
+	monthly: number;
+	caps: BudgetCaps;
+	exceeded: 'daily' | 'monthly' | null;
+};
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS spend (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		broadcaster TEXT NOT NULL,
+		kind TEXT NOT NULL,
+		model TEXT NOT NULL,
+		cost REAL NOT NULL,
+		created_at TEXT NOT NULL
+	);
+
+	CREATE INDEX IF NOT EXISTS idx_spend_broadcaster_date ON spend (broadcaster, created_at);
+`;
+
+/**
+ * Parses `channel:daily:monthly` entries separated by commas, e.g. `channel1:5:50,channel2::20`.
+ * An empty amount leaves that cap unset.
+ */
+export function parseChannelBudgets(value: string | undefined): Record<string, BudgetCaps> {
+	const channelBudgets: Record<string, BudgetCaps> = {};
+	for (const entry of (value ?? '').split(',').filter(Boolean)) {
+		const [channel, daily, monthly] = entry.split(':').map((part) => part.trim());
+		const caps: BudgetCaps = {
+			...(daily && { daily: Number(daily) }),
+			...(monthly && { monthly: Number(monthly) }),
+		};
+		if (!channel || Object.values(caps).some((amount) => isNaN(amount))) {
+			throw new Error(`Invalid channel budget "${entry}", expected channel:daily:monthly`);
+		}
+		channelBudgets[channel.toLowerCase()] = caps;
+	}
+	return channelBudgets;
+}
+
+/**
+ * Prices every chat and image call from the price table and records the cost per broadcaster.
+ * Days and months are counted in UTC.
+ */
+export class SpendTracker {
+	// Prices of the calls that are running right now, per broadcaster.
+	private readonly reserved = new Map<string, number>();
+
+	constructor(
+		private readonly db: SqliteDatabase,
+		private readonly prices: PriceTable,
+		private readonly defaultCaps: BudgetCaps = {},
+		private readonly channelCaps: Record<string, BudgetCaps> = {},
+	) {
+		this.db.exec(SCHEMA);
+	}
+
+	/**
+	 * Records a call and returns its cost. Image calls are priced by the quality and size they were made with.
+	 * Models missing from the price table are recorded as free.
+	 */
+	record(
+		broadcaster: string,
+		kind: SpendKind,
+		model: string,
+		options: ImageOptions = {},
+		now: Date = new Date(),
+	): number {
+		const price = getPrice(this.prices, model, options);
+		if (price === undefined) {
+			console.log(`No price for model ${model}, recording its ${kind} call as free`);
+		}
+
+		this.db
+			.prepare('INSERT INTO spend (broadcaster, kind, model, cost, created_at) VALUES (?, ?, ?, ?, ?)')
+			.run(broadcaster.toLowerCase(), kind, model, price ?? 0, now.toISOString());
+		return price ?? 0;
+	}
+
+	/**
+	 * Holds back the price of a call that is about to be made, so that calls running at the same time already count
+	 * it against the budget. Returns the function that gives it back, once the call is recorded or has failed.
+	 */
+	reserve(broadcaster: string, model: string, options: ImageOptions = {}): () => void {
+		const key = broadcaster.toLowerCase();
+		const price = getPrice(this.prices, model, options) ?? 0;
+		this.reserved.set(key, (this.reserved.get(key) ?? 0) + price);
+
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+			this.reserved.set(key, (this.reserved.get(key) ?? 0) - price);
+		};
+	}
+
+	getSpend(broadcaster: string, from: string): number {
+		const row = this.db
+			.prepare('SELECT COALESCE(SUM(cost), 0) AS total FROM spend WHERE broadcaster = ? AND created_at >= ?')
+			.get(broadcaster.toLowerCase(), from) as { total: number };
+		return row.total;
+	}
+
+	getCaps(broadcaster: string): BudgetCaps {
+		return { ...this.defaultCaps, ...this.channelCaps[broadcaster.toLowerCase()] };
+	}
+
+	getBudgetStatus(broadcaster: string, now: Date = new Date()): BudgetStatus {
+		const today = now.toISOString().slice(0, 10);
+		const daily = this.getSpend(broadcaster, today);
+		const monthly = this.getSpend(broadcaster, `${today.slice(0, 7)}-01`);
+		const caps = this.getCaps(broadcaster);
+		const reserved = this.reserved.get(broadcaster.toLowerCase()) ?? 0;
+
+		let exceeded: BudgetStatus['exceeded'] = null;
+		if (caps.monthly !== undefined && monthly + reserved >= caps.monthly) {
+			exceeded = 'monthly';
+		} else if (caps.daily !== undefined && daily + reserved >= caps.daily) {
+			exceeded = 'daily';
+		}
+
+		return { daily, monthly, caps, exceeded };
+	}
+}
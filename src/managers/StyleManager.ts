@@ -0,0 +1,264 @@
+import { StorageBackend } from '../storage/StorageBackend';
+import { stylesFileSchema } from '../schemas/dataFileSchemas';
+import { DALLE_TEMPLATES, DalleTemplate } from '../constants/styles';
+
+export type StyleSelectionMode = 'random' | 'rotation';
+
+type ChannelStyles = {
+	enabled: Set<string>;
+	disabled: Set<string>;
+	mode: StyleSelectionMode;
+	// styles already used in the current rotation
+	rotation: Set<string>;
+};
+
+export type StylesFile = {
+	styles: DalleTemplate[];
+	channels: Record<string, { enabled: string[]; disabled: string[]; mode?: StyleSelectionMode; rotation?: string[] }>;
+};
+
+/**
+ * Keeps the art styles and which of them each channel uses. A channel with enabled styles only draws from those,
+ * disabled styles are never used. Styles are identified by their lowercase keyword.
+ */
+export class StyleManager {
+	private styles = new Map<string, DalleTemplate>();
+	private channels = new Map<string, ChannelStyles>();
+
+	constructor(
+		private readonly storage: StorageBackend,
+		private readonly random: () => number = Math.random,
+	) {}
+
+	async loadStyles(): Promise<void> {
+		try {
+			const data = await this.storage.readDocument<unknown>('styles');
+			if (data === undefined) {
+				console.log(`Styles not found at ${this.storage.describe('styles')}, starting with the default styles.`);
+				// Copies, so that changing a style never changes the shared defaults.
+				this.styles = new Map(DALLE_TEMPLATES.map((style) => [style.keyword.toLowerCase(), { ...style }]));
+				await this.saveStyles();
+				return;
+			}
+
+			const { styles, channels } = stylesFileSchema.parse(data);
+			this.styles = new Map(styles.map((style) => [style.keyword.toLowerCase(), style]));
+			this.channels = new Map(
+				Object.entries(channels).map(([broadcaster, { enabled, disabled, mode, rotation }]) => [
+					broadcaster.toLowerCase(),
+					{
+						enabled: new Set(enabled),
+						disabled: new Set(disabled),
+						mode: mode ?? 'random',
+						rotation: new Set(rotation),
+					},
+				]),
+			);
+		} catch (error) {
+			console.error(`Error reading styles at ${this.storage.describe('styles')}`, error);
+		}
+	}
+
+	async saveStyles(): Promise<void> {
+		const data: StylesFile = {
+			styles: Array.from(this.styles.values()),
+			channels: Object.fromEntries(
+				Array.from(this.channels.entries()).map(([broadcaster, { enabled, disabled, mode, rotation }]) => [
+					broadcaster,
+					{ enabled: Array.from(enabled), disabled: Array.from(disabled), mode, rotation: Array.from(rotation) },
+				]),
+			),
+		};
+		await this.storage.writeDocument('styles', data);
+	}
+
+	getStyles(): DalleTemplate[] {
+		return Array.from(this.styles.values());
+	}
+
+	getStyle(keyword: string): DalleTemplate | undefined {
+		return this.styles.get(keyword.toLowerCase());
+	}
+
+	/**
+	 * Adds a style or replaces the one with the same keyword. Returns false if an existing style was replaced.
+	 */
+	async addStyle(style: DalleTemplate): Promise<boolean> {
+		const keyword = style.keyword.toLowerCase();
+		const isNew = !this.styles.has(keyword);
+		this.styles.set(keyword, { ...style, keyword });
+		await this.saveStyles();
+		return isNew;
+	}
+
+	async removeStyle(keyword: string): Promise<boolean> {
+		const lowerKeyword = keyword.toLowerCase();
+		const deleted = this.styles.delete(lowerKeyword);
+		if (deleted) {
+			for (const channel of this.channels.values()) {
+				channel.enabled.delete(lowerKeyword);
+				channel.disabled.delete(lowerKeyword);
+			}
+			await this.saveStyles();
+		}
+		return deleted;
+	}
+
+	async enableStyle(broadcaster: string, keyword: string): Promise<boolean> {
+		return this.updateChannel(broadcaster, keyword, (channel, lowerKeyword) => {
+			channel.disabled.delete(lowerKeyword);
+			channel.enabled.add(lowerKeyword);
+		});
+	}
+
+	async disableStyle(broadcaster: string, keyword: string): Promise<boolean> {
+		return this.updateChannel(broadcaster, keyword, (channel, lowerKeyword) => {
+			channel.enabled.delete(lowerKeyword);
+			channel.disabled.add(lowerKeyword);
+		});
+	}
+
+	/**
+	 * Removes the style from both lists of the channel, so it follows the channel default again.
+	 */
+	async resetStyle(broadcaster: string, keyword: string): Promise<boolean> {
+		return this.updateChannel(broadcaster, keyword, (channel, lowerKeyword) => {
+			channel.enabled.delete(lowerKeyword);
+			channel.disabled.delete(lowerKeyword);
+		});
+	}
+
+	async setStyleWeight(keyword: string, weight: number): Promise<boolean> {
+		const style = this.styles.get(keyword.toLowerCase());
+		if (!style) {
+			return false;
+		}
+
+		style.weight = weight;
+		await this.saveStyles();
+		return true;
+	}
+
+	getSelectionMode(broadcaster: string): StyleSelectionMode {
+		return this.channels.get(broadcaster.toLowerCase())?.mode ?? 'random';
+	}
+
+	async setSelectionMode(broadcaster: string, mode: StyleSelectionMode): Promise<void> {
+		const channel = this.getOrCreateChannel(broadcaster);
+		channel.mode = mode;
+		channel.rotation.clear();
+		this.storeChannel(broadcaster, channel);
+		await this.saveStyles();
+	}
+
+	/**
+	 * Picks a style for the channel, weighted and avoiding the user's recent styles where possible.
+	 * In rotation mode only styles not yet used in the current rotation are candidates, a new rotation starts once
+	 * every style was used.
+	 */
+	async pickStyle(
+		broadcaster: string,
+		recentStyles: string[] = [],
+		pool: string[] = [],
+	): Promise<DalleTemplate | undefined> {
+		const channelStyles = this.getPooledStyles(broadcaster, pool);
+		const channel = this.channels.get(broadcaster.toLowerCase());
+		const isRotation = channel?.mode === 'rotation';
+
+		let candidates = channelStyles;
+		if (channel && isRotation) {
+			candidates = channelStyles.filter((style) => !channel.rotation.has(style.keyword.toLowerCase()));
+			if (candidates.length === 0) {
+				channel.rotation.clear();
+				candidates = channelStyles;
+			}
+		}
+
+		const recent = new Set(recentStyles.map((style) => style.toLowerCase()));
+		const fresh = candidates.filter((style) => !recent.has(style.keyword.toLowerCase()));
+		const style = this.pickWeighted(fresh.length > 0 ? fresh : candidates);
+
+		if (style && channel && isRotation) {
+			channel.rotation.add(style.keyword.toLowerCase());
+			await this.saveStyles();
+		}
+
+		return style;
+	}
+
+	/**
+	 * Narrows the channel's styles to the pool. An empty pool, or one without any available style, leaves them as is.
+	 */
+	private getPooledStyles(broadcaster: string, pool: string[]): DalleTemplate[] {
+		const channelStyles = this.getChannelStyles(broadcaster);
+		const keywords = new Set(pool.map((keyword) => keyword.toLowerCase()));
+		const pooled = channelStyles.filter((style) => keywords.has(style.keyword.toLowerCase()));
+		return pooled.length > 0 ? pooled : channelStyles;
+	}
+
+	getChannelStyles(broadcaster: string): DalleTemplate[] {
+		const channel = this.channels.get(broadcaster.toLowerCase());
+		return this.getStyles().filter((style) => {
+			if (!channel) {
+				return true;
+			}
+			const keyword = style.keyword.toLowerCase();
+			return (channel.enabled.size === 0 || channel.enabled.has(keyword)) && !channel.disabled.has(keyword);
+		});
+	}
+
+	isStyleAvailable(broadcaster: string, keyword: string): boolean {
+		return this.getChannelStyles(broadcaster).some((style) => style.keyword.toLowerCase() === keyword.toLowerCase());
+	}
+
+	private async updateChannel(
+		broadcaster: string,
+		keyword: string,
+		update: (channel: ChannelStyles, lowerKeyword: string) => void,
+	): Promise<boolean> {
+		const lowerKeyword = keyword.toLowerCase();
+		if (!this.styles.has(lowerKeyword)) {
+			return false;
+		}
+
+		const channel = this.getOrCreateChannel(broadcaster);
+		update(channel, lowerKeyword);
+		this.storeChannel(broadcaster, channel);
+
+		await this.saveStyles();
+		return true;
+	}
+
+	private getOrCreateChannel(broadcaster: string): ChannelStyles {
+		return (
+			this.channels.get(broadcaster.toLowerCase()) ?? {
+				enabled: new Set(),
+				disabled: new Set(),
+				mode: 'random',
+				rotation: new Set(),
+			}
+		);
+	}
+
+	// Channels without any settings are dropped, so they keep following the defaults.
+	private storeChannel(broadcaster: string, channel: ChannelStyles): void {
+		const lowerBroadcaster = broadcaster.toLowerCase();
+		if (channel.enabled.size === 0 && channel.disabled.size === 0 && channel.mode === 'random') {
+			this.channels.delete(lowerBroadcaster);
+		} else {
+			this.channels.set(lowerBroadcaster, channel);
+		}
+	}
+
+	private pickWeighted(styles: DalleTemplate[]): DalleTemplate | undefined {
+		const totalWeight = styles.reduce((sum, style) => sum + (style.weight ?? 1), 0);
+		let remaining = this.random() * totalWeight;
+		for (const style of styles) {
+			remaining -= style.weight ?? 1;
+			if (remaining < 0) {
+				return style;
+			}
+		}
+		return styles[styles.length - 1];
+	}
+}
@@ -1,26 +1,28 @@
-import { PathLike, promises as fs } from 'fs';
+import { StorageBackend } from '../storage/StorageBackend';
+import { themesFileSchema } from '../schemas/dataFileSchemas';
 
 type BroadcasterThemeMap = Map<string, string>;
 
 export class ThemeManager {
 	private readonly broadcasterThemeMap: BroadcasterThemeMap = new Map();
 
-	constructor(private readonly filePath: PathLike) {}
+	constructor(private readonly storage: StorageBackend) {}
 
 	async loadThemes(): Promise<void> {
 		try {
-			const data = await fs.readFile(this.filePath, 'utf-8');
-			const themes = JSON.parse(data) as Record<string, string>;
+			const data = await this.storage.readDocument<unknown>('themes');
+			if (data === undefined) {
+				console.log(`Themes not found at ${this.storage.describe('themes')}, starting with empty themes.`);
+				return;
+			}
+
+			const themes = themesFileSchema.parse(data);
 			this.broadcasterThemeMap.clear();
 			Object.entries(themes).forEach(([broadcaster, theme]) => {
 				this.broadcasterThemeMap.set(broadcaster.toLowerCase(), theme);
 			});
 		} catch (error) {
-			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-				console.log(`Theme file not found at ${this.filePath}, starting with empty themes.`);
-			} else {
-				console.error(`Error reading themes file at ${this.filePath}`, error);
-			}
+			console.error(`Error reading themes at ${this.storage.describe('themes')}`, error);
 		}
 	}
 
@@ -40,9 +42,9 @@ export class ThemeManager {
 	async saveThemes(): Promise<void> {
 		try {
 			const themes = Object.fromEntries(this.broadcasterThemeMap);
-			await fs.writeFile(this.filePath, JSON.stringify(themes, null, 4), 'utf-8');
+			await this.storage.writeDocument('themes', themes);
 		} catch (error) {
-			console.error(`Error saving themes file at ${this.filePath}`, error);
+			console.error(`Error saving themes at ${this.storage.describe('themes')}`, error);
 		}
 	}
 
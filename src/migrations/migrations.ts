@@ -0,0 +1,124 @@
+import { BroadcasterImages, LegacySingleImage, withGenerationDefaults } from '../types/images';
+
+export type DataFileKey =
+	| 'images'
+	| 'themes'
+	| 'meanings'
+	| 'ignore'
+	| 'bannedGifters'
+	| 'styles'
+	| 'trusted'
+	| 'settings';
+
+export type DataFileMigration = {
+	version: number;
+	description: string;
+	migrate: (data: unknown) => unknown;
+};
+
+export const DATA_FILE_NAMES: Record<DataFileKey, string> = {
+	images: 'images.json',
+	themes: 'themes.json',
+	meanings: 'meanings.json',
+	ignore: 'ignore.json',
+	bannedGifters: 'bannedGifters.json',
+	styles: 'styles.json',
+	trusted: 'trusted.json',
+	settings: 'settings.json',
+};
+
+type FlatImageData = {
+	user: string;
+	image: string;
+	date: string;
+};
+
+const addVersion: DataFileMigration = {
+	version: 1,
+	description: 'Add schema version',
+	migrate: (data) => data,
+};
+
+/**
+ * Migrations per data file, in ascending version order. Append new entries here, never edit released ones.
+ */
+export const MIGRATIONS: Record<DataFileKey, DataFileMigration[]> = {
+	images: [
+		{
+			version: 1,
+			description: 'Group images by user within each broadcaster',
+			migrate: (data) => {
+				const broadcasters = data as Record<string, FlatImageData[] | Record<string, LegacySingleImage[]>>;
+				const grouped: BroadcasterImages = {};
+
+				for (const [broadcaster, images] of Object.entries(broadcasters)) {
+					if (!Array.isArray(images)) {
+						grouped[broadcaster] = images;
+						continue;
+					}
+
+					grouped[broadcaster] = {};
+					for (const image of images) {
+						grouped[broadcaster][image.user] ??= [];
+						grouped[broadcaster][image.user].push({
+							image: image.image,
+							date: image.date,
+							analysis: '',
+							revisedPrompt: '',
+						});
+					}
+				}
+
+				return grouped;
+			},
+		},
+		{
+			version: 2,
+			description: 'Add generation metadata',
+			migrate: (data) => {
+				const broadcasters = data as BroadcasterImages;
+				const migrated: BroadcasterImages = {};
+
+				for (const [broadcaster, users] of Object.entries(broadcasters)) {
+					migrated[broadcaster] = {};
+					for (const [user, images] of Object.entries(users)) {
+						migrated[broadcaster][user] = images.map(withGenerationDefaults);
+					}
+				}
+
+				return migrated;
+			},
+		},
+		{
+			version: 3,
+			description: 'Add prompt version',
+			migrate: (data) => {
+				const broadcasters = data as BroadcasterImages;
+				const migrated: BroadcasterImages = {};
+
+				for (const [broadcaster, users] of Object.entries(broadcasters)) {
+					migrated[broadcaster] = {};
+					for (const [user, images] of Object.entries(users)) {
+						migrated[broadcaster][user] = images.map((image) => ({
+							...image,
+							promptVersion: image.promptVersion ?? '',
+						}));
+					}
+				}
+
+				return migrated;
+			},
+		},
+	],
+	themes: [addVersion],
+	meanings: [addVersion],
+	ignore: [addVersion],
+	bannedGifters: [addVersion],
+	styles: [addVersion],
+	trusted: [addVersion],
+	settings: [addVersion],
+};
+
+export const SCHEMA_VERSIONS = Object.fromEntries(
+	Object.entries(MIGRATIONS).map(([key, migrations]) => [key, Math.max(0, ...migrations.map((m) => m.version))]),
+) as Record<DataFileKey, number>;
@@ -0,0 +1,81 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { isVersionedDataFile, readJsonFile, writeDataFile } from '../utils/persistence';
+import { DATA_FILE_NAMES, DataFileKey, MIGRATIONS, SCHEMA_VERSIONS } from './migrations';
+
+export type MigrationResult = {
+	file: string;
+	from: number;
+	to: number;
+};
+
+export function getMigrationBackupPath(filePath: string, version: number): string {
+	return `${filePath}.v${version}.bak`;
+}
+
+/**
+ * Applies every migration newer than `from` to the data. Throws if the data comes from a newer schema version.
+ */
+export function migrateData(key: DataFileKey, from: number, data: unknown): unknown {
+	const latest = SCHEMA_VERSIONS[key];
+	if (from > latest) {
+		throw new Error(`${key} has schema version ${from}, this version only supports up to ${latest}`);
+	}
+
+	return MIGRATIONS[key]
+		.filter((migration) => migration.version > from)
+		.reduce((migrated, migration) => migration.migrate(migrated), data);
+}
+
+/**
+ * Brings a single data file up to the latest schema version.
+ * The original file is copied to `<file>.v<version>.bak` before anything is written.
+ * Returns null if the file does not exist or is already up to date. Throws if it comes from a newer schema version,
+ * so older code never reads and overwrites data it does not understand.
+ */
+export async function migrateDataFile(key: DataFileKey, filePath: string): Promise<MigrationResult | null> {
+	let content: unknown;
+	try {
+		content = await readJsonFile<unknown>(filePath);
+	} catch (error) {
+		if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+			return null;
+		}
+		throw error;
+	}
+
+	const from = isVersionedDataFile(content) ? content.schemaVersion : 0;
+	let data = isVersionedDataFile(content) ? content.data : content;
+	const latest = SCHEMA_VERSIONS[key];
+	if (from > latest) {
+		throw new Error(`${filePath} has schema version ${from}, this version only supports up to ${latest}`);
+	}
+
+	const pending = MIGRATIONS[key].filter((migration) => migration.version > from);
+	if (pending.length === 0) {
+		return null;
+	}
+
+	await fs.copyFile(filePath, getMigrationBackupPath(filePath, from));
+
+	for (const migration of pending) {
+		console.log(`Migrating ${filePath} to v${migration.version}: ${migration.description}`);
+		data = migration.migrate(data);
+	}
+
+	const to = pending[pending.length - 1].version;
+	await writeDataFile(filePath, to, data);
+
+	return { file: filePath, from, to };
+}
+
+export async function runMigrations(dataDir: string): Promise<MigrationResult[]> {
+	const results: MigrationResult[] = [];
+	for (const [key, fileName] of Object.entries(DATA_FILE_NAMES)) {
+		const result = await migrateDataFile(key as DataFileKey, path.join(dataDir, fileName));
+		if (result) {
+			results.push(result);
+		}
+	}
+	return results;
+}
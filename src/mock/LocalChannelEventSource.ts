@@ -0,0 +1,43 @@
+import {
+	ChannelEventHandlers,
+	ChannelEventSource,
+	CheerEvent,
+	RaidEvent,
+	RedemptionEvent,
+} from '../eventsub/ChannelEventSource';
+
+/**
+ * Stands in for EventSub without any network access. Events are delivered by calling the `emit` methods.
+ */
+export class LocalChannelEventSource implements ChannelEventSource {
+	private readonly handlers = new Map<string, ChannelEventHandlers[]>();
+	private running = false;
+
+	subscribe(broadcasterId: string, handlers: ChannelEventHandlers): void {
+		this.handlers.set(broadcasterId, [...(this.handlers.get(broadcasterId) ?? []), handlers]);
+	}
+
+	start(): void {
+		this.running = true;
+	}
+
+	stop(): void {
+		this.running = false;
+	}
+
+	emitCheer(broadcasterId: string, event: CheerEvent): void {
+		this.getHandlers(broadcasterId).forEach((handlers) => handlers.onCheer?.(event));
+	}
+
+	emitRaid(broadcasterId: string, event: RaidEvent): void {
+		this.getHandlers(broadcasterId).forEach((handlers) => handlers.onRaid?.(event));
+	}
+
+	emitRedemption(broadcasterId: string, event: RedemptionEvent): void {
+		this.getHandlers(broadcasterId).forEach((handlers) => handlers.onRedemption?.(event));
+	}
+
+	private getHandlers(broadcasterId: string): ChannelEventHandlers[] {
+		return this.running ? (this.handlers.get(broadcasterId) ?? []) : [];
+	}
+}
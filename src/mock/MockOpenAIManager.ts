@@ -0,0 +1,66 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { OpenAIManager } from '../utils/OpenAIManager';
+import { createMockValue } from './mockSchemaValue';
+import { createPlaceholderPng } from './placeholderImage';
+
+/**
+ * Stands in for the OpenAI API without any network access. Structured completions are valid for their schema,
+ * images are placeholder PNGs.
+ */
+export class MockOpenAIManager extends OpenAIManager {
+	constructor(model: string) {
+		super('mock', model);
+	}
+
+	override async getChatCompletion(
+		messages: OpenAI.ChatCompletionMessageParam[],
+		options?: {
+			length?: number;
+			stop?: string[];
+		},
+	): Promise<string>;
+
+	override async getChatCompletion<T extends z.ZodType>(
+		messages: OpenAI.ChatCompletionMessageParam[],
+		options: {
+			length?: number;
+			stop?: string[];
+			schema: T;
+			schemaName: string;
+		},
+	): Promise<z.infer<T>>;
+
+	override async getChatCompletion<T extends z.ZodType>(
+		messages: OpenAI.ChatCompletionMessageParam[],
+		options: {
+			length?: number;
+			stop?: string[];
+			schema?: T;
+			schemaName?: string;
+		} = {},
+	): Promise<string | z.infer<T>> {
+		if (options.schema) {
+			return options.schema.parse(createMockValue(options.schema, options.schemaName));
+		}
+
+		const lastMessage = messages[messages.length - 1];
+		return `Mock completion for: ${typeof lastMessage?.content === 'string' ? lastMessage.content : ''}`;
+	}
+
+	override async moderate(): Promise<{ flagged: boolean; categories: string[] }> {
+		return { flagged: false, categories: [] };
+	}
+
+	override async generateImage(params: OpenAI.Images.ImageGenerateParams): Promise<OpenAI.Images.ImagesResponse> {
+		return {
+			created: Math.floor(Date.now() / 1000),
+			data: [
+				{
+					b64_json: createPlaceholderPng(params.prompt).toString('base64'),
+					revised_prompt: params.prompt,
+				},
+			],
+		};
+	}
+}
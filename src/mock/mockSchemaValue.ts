@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+/**
+ * Builds a value that satisfies the schema, with strings describing where in the schema they sit.
+ * Only covers the zod types our structured outputs use.
+ */
+export function createMockValue(schema: z.ZodTypeAny, path: string = 'value'): unknown {
+	if (schema instanceof z.ZodObject) {
+		return Object.fromEntries(
+			Object.entries(schema.shape as z.ZodRawShape).map(([key, value]) => [
+				key,
+				createMockValue(value, `${path}.${key}`),
+			]),
+		);
+	}
+	if (schema instanceof z.ZodArray) {
+		return [createMockValue(schema.element, `${path}[0]`)];
+	}
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+		return createMockValue(schema.unwrap(), path);
+	}
+	if (schema instanceof z.ZodDefault) {
+		return schema._def.defaultValue();
+	}
+	if (schema instanceof z.ZodLiteral) {
+		return schema.value;
+	}
+	if (schema instanceof z.ZodEnum) {
+		return schema.options[0];
+	}
+	if (schema instanceof z.ZodString) {
+		return `mock ${path}`;
+	}
+	if (schema instanceof z.ZodNumber) {
+		return 0;
+	}
+	if (schema instanceof z.ZodBoolean) {
+		return false;
+	}
+
+	throw new Error(`Cannot mock ${schema.constructor.name} at ${path}`);
+}
@@ -0,0 +1,66 @@
+import { deflateSync } from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(body));
+	return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Derives a stable colour from the text, so different prompts are easy to tell apart.
+ */
+function colorFor(text: string): [number, number, number] {
+	const hash = crc32(Buffer.from(text));
+	return [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+}
+
+/**
+ * Creates a solid colour PNG for the given text.
+ */
+export function createPlaceholderPng(text: string, width: number = 256, height: number = 256): Buffer {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header[8] = 8; // bit depth
+	header[9] = 2; // truecolour
+	header[10] = 0; // compression
+	header[11] = 0; // filter
+	header[12] = 0; // no interlace
+
+	const [red, green, blue] = colorFor(text);
+	const row = Buffer.alloc(1 + width * 3);
+	for (let x = 0; x < width; x++) {
+		row[1 + x * 3] = red;
+		row[2 + x * 3] = green;
+		row[3 + x * 3] = blue;
+	}
+	const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		chunk('IHDR', header),
+		chunk('IDAT', deflateSync(pixels)),
+		chunk('IEND', Buffer.alloc(0)),
+	]);
+}
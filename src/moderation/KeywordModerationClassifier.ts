@@ -0,0 +1,38 @@
+import { ModerationClassifier, ModerationResult } from './ModerationClassifier';
+
+type KeywordRule = { rule: string; pattern: RegExp };
+
+/**
+ * Flags texts containing any of the rules. A rule is either a word, matched case-insensitively as a whole word,
+ * or a regular expression written as `/pattern/flags`.
+ */
+export class KeywordModerationClassifier implements ModerationClassifier {
+	readonly name = 'keywords';
+	private readonly rules: KeywordRule[];
+
+	constructor(rules: string[]) {
+		this.rules = rules.map((rule) => ({ rule, pattern: this.toPattern(rule) }));
+	}
+
+	async classify(text: string): Promise<ModerationResult> {
+		const categories = this.rules.filter(({ pattern }) => pattern.test(text)).map(({ rule }) => rule);
+		return { flagged: categories.length > 0, categories };
+	}
+
+	private toPattern(rule: string): RegExp {
+		const regex = rule.match(/^\/(.+)\/([a-z]*)$/);
+		if (regex) {
+			return new RegExp(regex[1], regex[2].replace('g', ''));
+		}
+
+		const escaped = rule.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		return new RegExp(`\\b${escaped}\\b`, 'i');
+	}
+}
+
+export function parseKeywordRules(value?: string): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((rule) => rule.trim())
+		.filter(Boolean);
+}
@@ -0,0 +1,11 @@
+export type ModerationClassifierName = 'openai' | 'keywords';
+
+export type ModerationResult = {
+	flagged: boolean;
+	categories: string[];
+};
+
+export interface ModerationClassifier {
+	readonly name: ModerationClassifierName;
+	classify(text: string): Promise<ModerationResult>;
+}
@@ -0,0 +1,44 @@
+import { ModerationClassifier } from './ModerationClassifier';
+
+export type ModerationVerdict = {
+	flagged: boolean;
+	reasons: string[];
+};
+
+export const UNFLAGGED_VERDICT: ModerationVerdict = { flagged: false, reasons: [] };
+
+/**
+ * Runs every classifier over the texts of a generation stage. A classifier that fails flags the texts,
+ * so an outage never lets anything through unchecked.
+ */
+export class Moderator {
+	constructor(private readonly classifiers: ModerationClassifier[]) {}
+
+	async check(stage: string, texts: string[]): Promise<ModerationVerdict> {
+		const input = texts.filter(Boolean).join('\n');
+		if (!input) {
+			return UNFLAGGED_VERDICT;
+		}
+
+		const reasons: string[] = [];
+		for (const classifier of this.classifiers) {
+			try {
+				const result = await classifier.classify(input);
+				if (result.flagged) {
+					const categories = result.categories.length ? ` (${result.categories.join(', ')})` : '';
+					reasons.push(`${stage}: ${classifier.name}${categories}`);
+				}
+			} catch (error) {
+				console.log(`Moderation with ${classifier.name} failed`, error);
+				reasons.push(`${stage}: ${classifier.name} unavailable`);
+			}
+		}
+
+		return { flagged: reasons.length > 0, reasons };
+	}
+}
+
+export function mergeVerdicts(...verdicts: ModerationVerdict[]): ModerationVerdict {
+	const reasons = verdicts.flatMap((verdict) => verdict.reasons);
+	return { flagged: verdicts.some((verdict) => verdict.flagged), reasons };
+}
@@ -0,0 +1,12 @@
+import { OpenAIManager } from '../utils/OpenAIManager';
+import { ModerationClassifier, ModerationResult } from './ModerationClassifier';
+
+export class OpenAIModerationClassifier implements ModerationClassifier {
+	readonly name = 'openai';
+
+	constructor(private readonly openAIManager: OpenAIManager) {}
+
+	async classify(text: string): Promise<ModerationResult> {
+		return this.openAIManager.moderate(text);
+	}
+}
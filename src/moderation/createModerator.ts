@@ -0,0 +1,27 @@
+import { OpenAIManager } from '../utils/OpenAIManager';
+import { KeywordModerationClassifier } from './KeywordModerationClassifier';
+import { ModerationClassifier, ModerationClassifierName } from './ModerationClassifier';
+import { Moderator } from './Moderator';
+import { OpenAIModerationClassifier } from './OpenAIModerationClassifier';
+
+export type ModeratorConfig = {
+	classifiers: ModerationClassifierName[];
+	openAIManager: OpenAIManager;
+	keywords: string[];
+};
+
+export function createModerator(config: ModeratorConfig): Moderator {
+	const classifiers = config.classifiers.map((name): ModerationClassifier => {
+		switch (name) {
+			case 'openai':
+				return new OpenAIModerationClassifier(config.openAIManager);
+			case 'keywords':
+				return new KeywordModerationClassifier(config.keywords);
+		}
+	});
+	return new Moderator(classifiers);
+}
+
+export function parseModerationClassifiers(value: string): ModerationClassifierName[] {
+	return value === 'none' ? [] : (value.split(',') as ModerationClassifierName[]);
+}
@@ -0,0 +1,50 @@
+import { GenerationJobQueue } from '../managers/GenerationJobQueue';
+import { EventData } from '../types/events';
+import { GenerationJob, GenerationJobResult } from '../types/jobs';
+
+/**
+ * Asks the Discord admin to approve or reject a flagged result. Resolves to false if the admin could not be asked.
+ */
+export type ApprovalRequester = (job: GenerationJob, result: GenerationJobResult) => Promise<boolean>;
+
+export type ApprovalOutcome = 'admitted' | 'awaiting_approval' | 'failed';
+
+/**
+ * Parks a flagged job until the Discord admin decides. Jobs waiting for approval are never resumed, so the job fails
+ * if the admin could not be asked instead of waiting forever.
+ * Returns false if the admin could not be asked.
+ */
+export async function awaitApproval(
+	jobQueue: GenerationJobQueue,
+	job: GenerationJob,
+	result: GenerationJobResult,
+	requestApproval: ApprovalRequester,
+): Promise<boolean> {
+	jobQueue.setState(job.id, 'awaiting_approval');
+	if (await requestApproval(job, result)) {
+		return true;
+	}
+
+	jobQueue.setState(job.id, 'failed', 'Could not ask for approval');
+	return false;
+}
+
+/**
+ * Keeps a flagged sweatling from being posted, whichever path generated it. The result is stored as a job waiting
+ * for the Discord admin and announced once approved.
+ * Returns `admitted` if the result is not flagged and may be posted right away.
+ */
+export async function holdForApproval(
+	jobQueue: GenerationJobQueue,
+	eventData: EventData,
+	result: GenerationJobResult,
+	requestApproval: ApprovalRequester,
+): Promise<ApprovalOutcome> {
+	if (!result.moderation?.flagged) {
+		return 'admitted';
+	}
+
+	const job = jobQueue.enqueue(eventData);
+	jobQueue.saveResult(job.id, result);
+	return (await awaitApproval(jobQueue, job, result, requestApproval)) ? 'awaiting_approval' : 'failed';
+}
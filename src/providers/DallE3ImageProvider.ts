@@ -0,0 +1,46 @@
+import { OpenAIManager } from '../utils/OpenAIManager';
+import { GeneratedImage, ImageOptions, ImageProvider, ImageQuality, ImageSize } from './ImageProvider';
+
+export type DallE3Options = {
+	quality?: 'standard' | 'hd';
+	size?: '1024x1024' | '1792x1024' | '1024x1792';
+};
+
+const QUALITIES: Record<ImageQuality, NonNullable<DallE3Options['quality']>> = { standard: 'standard', high: 'hd' };
+
+const SIZES: Record<ImageSize, NonNullable<DallE3Options['size']>> = {
+	square: '1024x1024',
+	landscape: '1792x1024',
+	portrait: '1024x1792',
+};
+
+export class DallE3ImageProvider implements ImageProvider {
+	readonly name = 'dall-e-3';
+	readonly model = 'dall-e-3';
+
+	constructor(
+		private readonly openAIManager: OpenAIManager,
+		private readonly options: DallE3Options = {},
+	) {}
+
+	async generateImage(prompt: string, options: ImageOptions = {}): Promise<GeneratedImage> {
+		const response = await this.openAIManager.generateImage({
+			model: this.model,
+			prompt,
+			quality: (options.quality && QUALITIES[options.quality]) ?? this.options.quality ?? 'standard',
+			size: (options.size && SIZES[options.size]) ?? this.options.size ?? '1024x1024',
+			response_format: 'url',
+		});
+
+		const image = response.data?.[0];
+		const revisedPrompt = image?.revised_prompt ?? prompt;
+		if (image?.url) {
+			return { url: image.url, revisedPrompt };
+		}
+		if (image?.b64_json) {
+			return { data: Buffer.from(image.b64_json, 'base64'), revisedPrompt };
+		}
+
+		throw new Error('No image received from OpenAI');
+	}
+}
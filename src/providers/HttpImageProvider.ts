@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { GeneratedImage, ImageOptions, ImageProvider, ImageSize } from './ImageProvider';
+
+export type HttpImageOptions = {
+	model?: string;
+	width?: number;
+	height?: number;
+	params?: Record<string, unknown>;
+};
+
+const SIZES: Record<ImageSize, { width: number; height: number }> = {
+	square: { width: 1024, height: 1024 },
+	landscape: { width: 1536, height: 1024 },
+	portrait: { width: 1024, height: 1536 },
+};
+
+type HttpImageResponse = {
+	images?: string[];
+	url?: string;
+	info?: string;
+};
+
+/**
+ * Talks to a self-hosted image server. The request body follows the Stable Diffusion web UI `txt2img` API,
+ * the response may carry base64 `images` like that API or a plain `url`.
+ */
+export class HttpImageProvider implements ImageProvider {
+	readonly name = 'local';
+	readonly model: string;
+
+	constructor(
+		private readonly endpoint: string,
+		private readonly options: HttpImageOptions = {},
+	) {
+		this.model = options.model ?? 'local';
+	}
+
+	/**
+	 * The quality option is left to the server's own settings, only the size is passed on.
+	 */
+	async generateImage(prompt: string, options: ImageOptions = {}): Promise<GeneratedImage> {
+		const size = options.size && SIZES[options.size];
+		const response = await axios.post<HttpImageResponse>(this.endpoint, {
+			prompt,
+			width: size?.width ?? this.options.width ?? 1024,
+			height: size?.height ?? this.options.height ?? 1024,
+			...this.options.params,
+		});
+
+		const [image] = response.data.images ?? [];
+		if (image) {
+			return { data: Buffer.from(image, 'base64'), revisedPrompt: prompt };
+		}
+		if (response.data.url) {
+			return { url: response.data.url, revisedPrompt: prompt };
+		}
+
+		throw new Error(`No image received from ${this.endpoint}`);
+	}
+}
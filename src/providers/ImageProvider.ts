@@ -0,0 +1,24 @@
+import { ImageSource } from '../types/images';
+
+export type ImageProviderName = 'dall-e-3' | 'openai' | 'local';
+
+export type GeneratedImage = { revisedPrompt: string } & ImageSource;
+
+export type ImageQuality = 'standard' | 'high';
+
+export type ImageSize = 'square' | 'landscape' | 'portrait';
+
+/**
+ * Per-image options in provider-neutral terms, each provider maps them to its own values.
+ * Unset options fall back to the provider's configured defaults.
+ */
+export type ImageOptions = {
+	quality?: ImageQuality;
+	size?: ImageSize;
+};
+
+export interface ImageProvider {
+	readonly name: ImageProviderName;
+	readonly model: string;
+	generateImage(prompt: string, options?: ImageOptions): Promise<GeneratedImage>;
+}
@@ -0,0 +1,46 @@
+import { ImageProvider, ImageProviderName } from './ImageProvider';
+
+/**
+ * Parses `channel:provider` pairs separated by commas, e.g. `channel1:openai,channel2:local`.
+ */
+export function parseChannelProviders(value: string | undefined): Record<string, string> {
+	const channelProviders: Record<string, string> = {};
+	for (const entry of (value ?? '').split(',').filter(Boolean)) {
+		const [channel, provider] = entry.split(':').map((part) => part.trim());
+		if (!channel || !provider) {
+			throw new Error(`Invalid channel provider "${entry}", expected channel:provider`);
+		}
+		channelProviders[channel.toLowerCase()] = provider;
+	}
+	return channelProviders;
+}
+
+export class ImageProviderRegistry {
+	private readonly providers = new Map<string, ImageProvider>();
+
+	constructor(
+		providers: ImageProvider[],
+		private readonly defaultProvider: ImageProviderName,
+		private readonly channelProviders: Record<string, string> = {},
+	) {
+		for (const provider of providers) {
+			this.providers.set(provider.name, provider);
+		}
+
+		// Fail on startup rather than on the first sub of a misconfigured channel.
+		for (const name of [defaultProvider, ...Object.values(channelProviders)]) {
+			if (!this.providers.has(name)) {
+				throw new Error(`Image provider "${name}" is not available, check its configuration.`);
+			}
+		}
+	}
+
+	getProvider(broadcaster?: string): ImageProvider {
+		const name = (broadcaster && this.channelProviders[broadcaster.toLowerCase()]) || this.defaultProvider;
+		return this.providers.get(name)!;
+	}
+
+	getProviderNames(): string[] {
+		return Array.from(this.providers.keys());
+	}
+}
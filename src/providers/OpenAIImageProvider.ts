@@ -0,0 +1,48 @@
+import { OpenAIManager } from '../utils/OpenAIManager';
+import { GeneratedImage, ImageOptions, ImageProvider, ImageQuality, ImageSize } from './ImageProvider';
+
+export type OpenAIImageOptions = {
+	quality?: 'low' | 'medium' | 'high' | 'auto';
+	size?: '1024x1024' | '1536x1024' | '1024x1536' | 'auto';
+};
+
+const QUALITIES: Record<ImageQuality, NonNullable<OpenAIImageOptions['quality']>> = {
+	standard: 'medium',
+	high: 'high',
+};
+
+const SIZES: Record<ImageSize, NonNullable<OpenAIImageOptions['size']>> = {
+	square: '1024x1024',
+	landscape: '1536x1024',
+	portrait: '1024x1536',
+};
+
+/**
+ * Newer OpenAI image models such as gpt-image-1. They always return the image itself and do not revise the prompt.
+ */
+export class OpenAIImageProvider implements ImageProvider {
+	readonly name = 'openai';
+
+	constructor(
+		private readonly openAIManager: OpenAIManager,
+		readonly model: string = 'gpt-image-1',
+		private readonly options: OpenAIImageOptions = {},
+	) {}
+
+	async generateImage(prompt: string, options: ImageOptions = {}): Promise<GeneratedImage> {
+		const response = await this.openAIManager.generateImage({
+			model: this.model,
+			prompt,
+			quality: (options.quality && QUALITIES[options.quality]) ?? this.options.quality ?? 'auto',
+			size: (options.size && SIZES[options.size]) ?? this.options.size ?? '1024x1024',
+			output_format: 'png',
+		});
+
+		const image = response.data?.[0];
+		if (!image?.b64_json) {
+			throw new Error('No image data received from OpenAI');
+		}
+
+		return { data: Buffer.from(image.b64_json, 'base64'), revisedPrompt: image.revised_prompt ?? prompt };
+	}
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import {
+	bannedGiftersFileSchema,
+	ignoreFileSchema,
+	meaningsFileSchema,
+	settingsFileSchema,
+	stylesFileSchema,
+	themesFileSchema,
+	trustedFileSchema,
+} from './dataFileSchemas';
+
+export const BACKUP_FORMAT = 'twitch-sweat-backup';
+export const BACKUP_VERSION = 1;
+
+const imageSchema = z
+	.object({
+		image: z.string(),
+		analysis: z.string(),
+		revisedPrompt: z.string(),
+		date: z.string(),
+	})
+	.passthrough();
+
+export const imagesFileSchema = z.record(z.string(), z.record(z.string(), z.array(imageSchema)));
+
+const tokensSchema = z
+	.object({
+		accessToken: z.string(),
+		refreshToken: z.string().nullable(),
+	})
+	.passthrough();
+
+const schemaVersion = z.number().int().nonnegative();
+
+/**
+ * Documents are validated after they were migrated to the current schema version, see BackupManager.
+ */
+export const backupArchiveSchema = z.object({
+	format: z.literal(BACKUP_FORMAT),
+	version: z.literal(BACKUP_VERSION),
+	createdAt: z.string(),
+	schemaVersions: z.object({
+		images: schemaVersion,
+		themes: schemaVersion,
+		meanings: schemaVersion,
+		ignore: schemaVersion,
+		bannedGifters: schemaVersion,
+		// Archives created before styles were stored do not carry them.
+		styles: schemaVersion.optional(),
+		trusted: schemaVersion.optional(),
+		settings: schemaVersion.optional(),
+	}),
+	data: z.object({
+		images: z.unknown(),
+		themes: z.unknown(),
+		meanings: z.unknown(),
+		ignore: z.unknown(),
+		bannedGifters: z.unknown(),
+		styles: z.unknown(),
+		trusted: z.unknown(),
+		settings: z.unknown(),
+	}),
+	tokens: tokensSchema.optional(),
+});
+
+export const backupDataSchema = z.object({
+	images: imagesFileSchema,
+	themes: themesFileSchema,
+	meanings: meaningsFileSchema,
+	ignore: ignoreFileSchema,
+	bannedGifters: bannedGiftersFileSchema,
+	styles: stylesFileSchema.optional(),
+	trusted: trustedFileSchema.optional(),
+	settings: settingsFileSchema.optional(),
+});
+
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
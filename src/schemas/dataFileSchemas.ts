@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+export const themesFileSchema = z.record(z.string(), z.string());
+
+export const meaningsFileSchema = z.record(z.string(), z.string());
+
+export const ignoreFileSchema = z.array(z.string());
+
+export const bannedGiftersFileSchema = z.record(z.string(), z.array(z.string()));
+
+export const trustedFileSchema = z.record(z.string(), z.array(z.string()));
+
+export const messageTemplatesSchema = z
+	.object({
+		thanks: z.string(),
+		image: z.string(),
+		failure: z.string(),
+		myai: z.string(),
+		meaning: z.string(),
+	})
+	.partial();
+
+export const settingsFileSchema = z.record(
+	z.string(),
+	z.object({
+		messages: messageTemplatesSchema.default({}),
+	}),
+);
+
+export const stylesFileSchema = z.object({
+	styles: z.array(
+		z.object({
+			name: z.string(),
+			keyword: z.string(),
+			description: z.string(),
+			weight: z.number().positive().optional(),
+		}),
+	),
+	channels: z.record(
+		z.string(),
+		z.object({
+			enabled: z.array(z.string()),
+			disabled: z.array(z.string()),
+			mode: z.enum(['random', 'rotation']).optional(),
+			rotation: z.array(z.string()).optional(),
+		}),
+	),
+});
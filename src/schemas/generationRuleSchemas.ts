@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * Every condition that is set must hold for the rule to apply. Plans are Twitch's `1000`, `2000`, `3000` and `Prime`.
+ */
+export const generationRuleMatchSchema = z.object({
+	plans: z.array(z.string()).optional(),
+	minMonths: z.number().int().min(0).optional(),
+	monthsMultipleOf: z.number().int().positive().optional(),
+	minStreak: z.number().int().min(0).optional(),
+});
+
+export const generationRuleSchema = z.object({
+	match: generationRuleMatchSchema.default({}),
+	quality: z.enum(['standard', 'high']).optional(),
+	size: z.enum(['square', 'landscape', 'portrait']).optional(),
+	flavor: z.string().optional(),
+	styles: z.array(z.string()).optional(),
+});
+
+/**
+ * The default rules apply in every channel, a channel's own rules apply after them.
+ */
+export const generationRulesFileSchema = z.object({
+	default: z.array(generationRuleSchema).default([]),
+	channels: z.record(z.string(), z.array(generationRuleSchema)).default({}),
+});
+
+export type GenerationRule = z.infer<typeof generationRuleSchema>;
+export type GenerationRulesFile = z.infer<typeof generationRulesFileSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Long prompts are easier to edit as a list of lines than as one escaped string.
+const promptText = z.union([z.string(), z.array(z.string()).transform((lines) => lines.join('\n'))]);
+
+export const promptSetFileSchema = z.object({
+	name: z.string().regex(/^[\w-]+$/, 'Prompt set names may only contain letters, digits, _ and -'),
+	version: z.number().int().positive(),
+	structuredOutputPrompt: promptText,
+	themeInstructionBlock: promptText.refine((text) => text.includes('__THEME__'), 'Must contain __THEME__'),
+	imagePromptTemplate: promptText.refine((text) => text.includes('__DATA__'), 'Must contain __DATA__'),
+});
+
+/**
+ * A channel either uses a single prompt version, or splits its generations between a control and a variant version.
+ */
+export const promptAssignmentSchema = z.union([
+	z.string(),
+	z.object({
+		control: z.string(),
+		variant: z.string(),
+		variantPercentage: z.number().min(0).max(100),
+	}),
+]);
+
+export const promptAssignmentsFileSchema = z.object({
+	default: z.string().optional(),
+	channels: z.record(z.string(), promptAssignmentSchema).default({}),
+});
+
+export type PromptAssignment = z.infer<typeof promptAssignmentSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const cheerTriggerSchema = z.object({
+	enabled: z.boolean().default(true),
+	minBits: z.number().int().min(1).default(500),
+});
+
+const raidTriggerSchema = z.object({
+	enabled: z.boolean().default(true),
+	minViewers: z.number().int().min(0).default(1),
+});
+
+/**
+ * The reward is identified by its id or, easier to configure, by its title.
+ */
+const redemptionTriggerSchema = z
+	.object({
+		enabled: z.boolean().default(true),
+		rewardId: z.string().optional(),
+		rewardTitle: z.string().optional(),
+	})
+	.refine((trigger) => trigger.rewardId || trigger.rewardTitle, 'Needs a rewardId or rewardTitle');
+
+export const channelTriggersSchema = z.object({
+	cheer: cheerTriggerSchema.optional(),
+	raid: raidTriggerSchema.optional(),
+	redemption: redemptionTriggerSchema.optional(),
+});
+
+/**
+ * Triggers of a channel replace the default trigger of the same type.
+ */
+export const triggersFileSchema = z.object({
+	default: channelTriggersSchema.default({}),
+	channels: z.record(z.string(), channelTriggersSchema).default({}),
+});
+
+export type ChannelTriggers = z.infer<typeof channelTriggersSchema>;
+export type TriggersFile = z.infer<typeof triggersFileSchema>;
@@ -0,0 +1,136 @@
+import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
+import { ImageDataStore } from '../managers/ImageDataStore';
+import { ImageQuery } from '../types/images';
+import { renderBroadcasterIndex, renderGallery } from './galleryTemplates';
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+type PageParams = { page: number; pageSize: number };
+
+export class GalleryServer {
+	private readonly app: Express;
+	private server: Server | null = null;
+
+	/**
+	 * With an images directory, the locally hosted images are served under `/images`.
+	 */
+	constructor(
+		private readonly imageDataStore: ImageDataStore,
+		imagesDir?: string,
+	) {
+		this.app = express();
+		if (imagesDir) {
+			this.app.use('/images', express.static(imagesDir));
+		}
+		this.registerRoutes();
+	}
+
+	getApp(): Express {
+		return this.app;
+	}
+
+	/**
+	 * Rejects if the server cannot listen on the port, e.g. because it is in use.
+	 * Express hands listen errors to the callback instead of throwing them.
+	 */
+	start(port: number): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.server = this.app.listen(port, (error?: Error) => {
+				if (error) {
+					this.server = null;
+					reject(error);
+					return;
+				}
+				console.log(`Gallery server listening on port ${port}`);
+				resolve();
+			});
+		});
+	}
+
+	stop(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (!this.server) {
+				resolve();
+				return;
+			}
+			this.server.close((error) => (error ? reject(error) : resolve()));
+			this.server = null;
+		});
+	}
+
+	private registerRoutes(): void {
+		this.app.get('/api/broadcasters', async (_req, res) => {
+			res.json({ broadcasters: await this.imageDataStore.getBroadcasters() });
+		});
+
+		this.app.get('/api/broadcasters/:broadcaster/images', (req, res) =>
+			this.sendImages(req, res, { broadcaster: req.params.broadcaster }),
+		);
+
+		this.app.get('/api/broadcasters/:broadcaster/users/:user/images', (req, res) =>
+			this.sendImages(req, res, { broadcaster: req.params.broadcaster, user: req.params.user }),
+		);
+
+		this.app.get('/api/users/:user/images', (req, res) => this.sendImages(req, res, { user: req.params.user }));
+
+		this.app.get('/', (_req, res) => {
+			res.redirect('/gallery');
+		});
+
+		this.app.get('/gallery', async (_req, res) => {
+			res.type('html').send(renderBroadcasterIndex(await this.imageDataStore.getBroadcasters()));
+		});
+
+		this.app.get('/gallery/:broadcaster', (req, res) => {
+			const { broadcaster } = req.params;
+			this.sendGallery(req, res, { broadcaster }, `Sweatlings in ${broadcaster}`);
+		});
+
+		this.app.get('/gallery/:broadcaster/user/:user', (req, res) => {
+			const { broadcaster, user } = req.params;
+			this.sendGallery(req, res, { broadcaster, user }, `Sweatlings of ${user} in ${broadcaster}`);
+		});
+	}
+
+	private async sendImages(req: Request, res: Response, query: ImageQuery): Promise<void> {
+		try {
+			const { page, pageSize } = this.getPageParams(req);
+			const images = await this.imageDataStore.getImages({
+				...query,
+				limit: pageSize,
+				offset: (page - 1) * pageSize,
+			});
+			res.json({ images, page, pageSize, total: await this.imageDataStore.countImages(query) });
+		} catch (error) {
+			console.error('Error serving images', error);
+			res.status(500).json({ error: 'Internal server error' });
+		}
+	}
+
+	private async sendGallery(req: Request, res: Response, query: ImageQuery, title: string): Promise<void> {
+		try {
+			const { page, pageSize } = this.getPageParams(req);
+			const images = await this.imageDataStore.getImages({
+				...query,
+				limit: pageSize,
+				offset: (page - 1) * pageSize,
+			});
+			const total = await this.imageDataStore.countImages(query);
+			res.type('html').send(renderGallery(title, req.path, images, { page, pageSize, total }));
+		} catch (error) {
+			console.error('Error serving gallery', error);
+			res.status(500).send('Internal server error');
+		}
+	}
+
+	private getPageParams(req: Request): PageParams {
+		const page = parseInt(String(req.query.page ?? '1'), 10);
+		const pageSize = parseInt(String(req.query.pageSize ?? DEFAULT_PAGE_SIZE), 10);
+		return {
+			page: isNaN(page) || page < 1 ? 1 : page,
+			pageSize: isNaN(pageSize) || pageSize < 1 ? DEFAULT_PAGE_SIZE : Math.min(pageSize, MAX_PAGE_SIZE),
+		};
+	}
+}
@@ -0,0 +1,84 @@
+import { StoredImage } from '../types/images';
+
+export type Pagination = {
+	page: number;
+	pageSize: number;
+	total: number;
+};
+
+export const escapeHtml = (value: string): string =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+
+const STYLES = `
+	body { font-family: sans-serif; background: #14141a; color: #eee; margin: 0 auto; max-width: 1200px; padding: 1rem; }
+	a { color: #7fb2ff; }
+	.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); gap: 1rem; }
+	.card { background: #1f1f28; border-radius: 8px; padding: 0.5rem; }
+	.card img { width: 100%; border-radius: 4px; }
+	.card details { font-size: 0.8rem; white-space: pre-wrap; }
+	.pagination { display: flex; gap: 1rem; justify-content: center; margin: 1rem 0; }
+`;
+
+function layout(title: string, body: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1">
+	<title>${escapeHtml(title)}</title>
+	<style>${STYLES}</style>
+</head>
+<body>
+	<h1>${escapeHtml(title)}</h1>
+	${body}
+</body>
+</html>`;
+}
+
+function renderPagination(basePath: string, { page, pageSize, total }: Pagination): string {
+	const pageCount = Math.max(1, Math.ceil(total / pageSize));
+	const links: string[] = [];
+	if (page > 1) {
+		links.push(`<a href="${escapeHtml(basePath)}?page=${page - 1}">&laquo; Newer</a>`);
+	}
+	links.push(`<span>Page ${page} of ${pageCount}</span>`);
+	if (page < pageCount) {
+		links.push(`<a href="${escapeHtml(basePath)}?page=${page + 1}">Older &raquo;</a>`);
+	}
+	return `<nav class="pagination">${links.join('')}</nav>`;
+}
+
+function renderImage(image: StoredImage): string {
+	const userPath = `/gallery/${encodeURIComponent(image.broadcaster)}/user/${encodeURIComponent(image.user)}`;
+	const details = [`<a href="${userPath}">${escapeHtml(image.user)}</a>`, escapeHtml(image.date.slice(0, 10))];
+	if (image.style) {
+		details.push(escapeHtml(image.style));
+	}
+	return `<div class="card">
+		<a href="${escapeHtml(image.image)}"><img src="${escapeHtml(image.image)}" alt="${escapeHtml(image.user)}" loading="lazy"></a>
+		<div>${details.join(' &middot; ')}</div>
+		<details><summary>Analysis</summary>${escapeHtml(image.analysis)}</details>
+		<details><summary>Revised prompt</summary>${escapeHtml(image.revisedPrompt)}</details>
+	</div>`;
+}
+
+export function renderBroadcasterIndex(broadcasters: string[]): string {
+	const items = broadcasters
+		.map(
+			(broadcaster) => `<li><a href="/gallery/${encodeURIComponent(broadcaster)}">${escapeHtml(broadcaster)}</a></li>`,
+		)
+		.join('');
+	return layout('Sweatlings', broadcasters.length ? `<ul>${items}</ul>` : '<p>No sweatlings yet.</p>');
+}
+
+export function renderGallery(title: string, basePath: string, images: StoredImage[], pagination: Pagination): string {
+	const body = images.length
+		? `<div class="grid">${images.map(renderImage).join('')}</div>${renderPagination(basePath, pagination)}`
+		: '<p>No sweatlings yet.</p>';
+	return layout(title, body);
+}
@@ -0,0 +1,122 @@
+import { ImageQuery, SingleImage, StoredImage, withGenerationDefaults } from '../types/images';
+import { DocumentKey, ImageCountQuery, NewImage, StorageBackend } from './StorageBackend';
+
+type StoredImageRecord = SingleImage & { id?: number };
+
+export type ImagesDocument = {
+	[broadcaster: string]: {
+		[user: string]: StoredImageRecord[];
+	};
+};
+
+/**
+ * Base for backends that keep everything as documents. Images live in a single `images` document,
+ * which is fine for small deployments and tests but gets slow as it grows.
+ */
+export abstract class DocumentStorage implements StorageBackend {
+	private imageWrites: Promise<void> = Promise.resolve();
+
+	abstract describe(key: DocumentKey | 'images'): string;
+	abstract readDocument<T>(key: DocumentKey): Promise<T | undefined>;
+	abstract writeDocument<T>(key: DocumentKey, data: T): Promise<void>;
+	protected abstract readImagesDocument(): Promise<ImagesDocument | undefined>;
+	protected abstract writeImagesDocument(data: ImagesDocument): Promise<void>;
+
+	insertImages(images: NewImage[]): Promise<void> {
+		return this.updateImages((document) => {
+			let nextId = this.flatten(document).reduce((max, image) => Math.max(max, image.id), 0) + 1;
+
+			for (const { broadcaster, user, image } of images) {
+				const lowerBroadcaster = broadcaster.toLowerCase();
+				const lowerUser = user.toLowerCase();
+				document[lowerBroadcaster] ??= {};
+				document[lowerBroadcaster][lowerUser] ??= [];
+				document[lowerBroadcaster][lowerUser].push({ ...image, id: nextId++ });
+			}
+
+			return document;
+		});
+	}
+
+	clearImages(): Promise<void> {
+		return this.updateImages(() => ({}));
+	}
+
+	async queryImages(query: ImageQuery): Promise<StoredImage[]> {
+		const images = this.filter(this.flatten(await this.loadImages()), query);
+		const offset = query.offset ?? 0;
+		return query.limit !== undefined ? images.slice(offset, offset + query.limit) : images.slice(offset);
+	}
+
+	async countImages(query: ImageCountQuery): Promise<number> {
+		return this.filter(this.flatten(await this.loadImages()), query).length;
+	}
+
+	async listBroadcasters(): Promise<string[]> {
+		const document = await this.loadImages();
+		return Object.keys(document)
+			.filter((broadcaster) => Object.values(document[broadcaster]).some((images) => images.length > 0))
+			.sort();
+	}
+
+	async close(): Promise<void> {
+		await this.imageWrites.catch(() => undefined);
+	}
+
+	// Updates are read-modify-write on the whole document, so they must not interleave.
+	private updateImages(update: (document: ImagesDocument) => ImagesDocument): Promise<void> {
+		const next = this.imageWrites
+			.catch(() => undefined)
+			.then(async () => {
+				await this.writeImagesDocument(update(await this.loadImages()));
+			});
+
+		this.imageWrites = next;
+		return next;
+	}
+
+	private async loadImages(): Promise<ImagesDocument> {
+		const document = (await this.readImagesDocument()) ?? {};
+
+		// Records written before ids existed get one on the fly, the next insert persists it.
+		let nextId =
+			Object.values(document)
+				.flatMap((users) => Object.values(users).flat())
+				.reduce((max, image) => Math.max(max, image.id ?? 0), 0) + 1;
+		for (const users of Object.values(document)) {
+			for (const images of Object.values(users)) {
+				for (const image of images) {
+					image.id ??= nextId++;
+				}
+			}
+		}
+
+		return document;
+	}
+
+	private flatten(document: ImagesDocument): StoredImage[] {
+		const images: StoredImage[] = [];
+		for (const [broadcaster, users] of Object.entries(document)) {
+			for (const [user, userImages] of Object.entries(users)) {
+				for (const image of userImages) {
+					images.push({ ...withGenerationDefaults(image), id: image.id!, broadcaster, user });
+				}
+			}
+		}
+		return images;
+	}
+
+	private filter(images: StoredImage[], query: ImageCountQuery): StoredImage[] {
+		const broadcaster = query.broadcaster?.toLowerCase();
+		const user = query.user?.toLowerCase();
+		return images
+			.filter(
+				(image) =>
+					(!broadcaster || image.broadcaster === broadcaster) &&
+					(!user || image.user === user) &&
+					(!query.from || image.date >= query.from) &&
+					(!query.to || image.date < query.to),
+			)
+			.sort((a, b) => (a.date === b.date ? b.id - a.id : a.date < b.date ? 1 : -1));
+	}
+}
@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { DATA_FILE_NAMES, SCHEMA_VERSIONS } from '../migrations/migrations';
+import { readDataFile, writeDataFile } from '../utils/persistence';
+import { DocumentKey } from './StorageBackend';
+import { DocumentStorage, ImagesDocument } from './DocumentStorage';
+
+/**
+ * Stores every document as a versioned JSON file in the data directory, e.g. `data/themes.json`.
+ */
+export class JsonFileStorage extends DocumentStorage {
+	constructor(private readonly dataDir: string) {
+		super();
+	}
+
+	describe(key: DocumentKey | 'images'): string {
+		return this.getFilePath(key);
+	}
+
+	readDocument<T>(key: DocumentKey): Promise<T | undefined> {
+		return this.read<T>(key);
+	}
+
+	writeDocument<T>(key: DocumentKey, data: T): Promise<void> {
+		return writeDataFile(this.getFilePath(key), SCHEMA_VERSIONS[key], data);
+	}
+
+	protected readImagesDocument(): Promise<ImagesDocument | undefined> {
+		return this.read<ImagesDocument>('images');
+	}
+
+	protected writeImagesDocument(data: ImagesDocument): Promise<void> {
+		return writeDataFile(this.getFilePath('images'), SCHEMA_VERSIONS.images, data);
+	}
+
+	private getFilePath(key: DocumentKey | 'images'): string {
+		return path.join(this.dataDir, DATA_FILE_NAMES[key]);
+	}
+
+	private async read<T>(key: DocumentKey | 'images'): Promise<T | undefined> {
+		try {
+			return await readDataFile<T>(this.getFilePath(key));
+		} catch (error) {
+			if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,35 @@
+import { DocumentKey } from './StorageBackend';
+import { DocumentStorage, ImagesDocument } from './DocumentStorage';
+
+/**
+ * Keeps everything in process memory. Nothing survives a restart, meant for tests and dry runs.
+ */
+export class MemoryStorage extends DocumentStorage {
+	private readonly documents = new Map<DocumentKey | 'images', string>();
+
+	describe(key: DocumentKey | 'images'): string {
+		return `memory:${key}`;
+	}
+
+	async readDocument<T>(key: DocumentKey): Promise<T | undefined> {
+		return this.read<T>(key);
+	}
+
+	async writeDocument<T>(key: DocumentKey, data: T): Promise<void> {
+		this.documents.set(key, JSON.stringify(data));
+	}
+
+	protected async readImagesDocument(): Promise<ImagesDocument | undefined> {
+		return this.read<ImagesDocument>('images');
+	}
+
+	protected async writeImagesDocument(data: ImagesDocument): Promise<void> {
+		this.documents.set('images', JSON.stringify(data));
+	}
+
+	// Values are kept serialised so callers never share references with the stored state.
+	private read<T>(key: DocumentKey | 'images'): T | undefined {
+		const value = this.documents.get(key);
+		return value === undefined ? undefined : (JSON.parse(value) as T);
+	}
+}
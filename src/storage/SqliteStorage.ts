@@ -0,0 +1,258 @@
+import { SqliteDatabase } from '../utils/database';
+import { GenerationTimings, ImageQuery, SingleImage, StoredImage, withGenerationDefaults } from '../types/images';
+import { DocumentKey, ImageCountQuery, NewImage, StorageBackend } from './StorageBackend';
+
+type ImageRow = {
+	id: number;
+	broadcaster: string;
+	user: string;
+	image: string;
+	analysis: string;
+	revised_prompt: string;
+	date: string;
+	style: string;
+	theme: string;
+	trigger_type: string;
+	source: string;
+	chat_model: string;
+	image_model: string;
+	prompt_version: string;
+	retries: number;
+	timings: string | null;
+	replaces: number | null;
+};
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS broadcasters (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		name TEXT NOT NULL UNIQUE
+	);
+
+	CREATE TABLE IF NOT EXISTS users (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		name TEXT NOT NULL UNIQUE
+	);
+
+	CREATE TABLE IF NOT EXISTS images (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		broadcaster_id INTEGER NOT NULL REFERENCES broadcasters(id),
+		user_id INTEGER NOT NULL REFERENCES users(id),
+		image TEXT NOT NULL,
+		analysis TEXT NOT NULL DEFAULT '',
+		revised_prompt TEXT NOT NULL DEFAULT '',
+		date TEXT NOT NULL
+	);
+
+	CREATE INDEX IF NOT EXISTS idx_images_broadcaster_date ON images (broadcaster_id, date);
+	CREATE INDEX IF NOT EXISTS idx_images_user_date ON images (user_id, date);
+	CREATE INDEX IF NOT EXISTS idx_images_broadcaster_user_date ON images (broadcaster_id, user_id, date);
+	CREATE INDEX IF NOT EXISTS idx_images_date ON images (date);
+
+	CREATE TABLE IF NOT EXISTS documents (
+		key TEXT PRIMARY KEY,
+		data TEXT NOT NULL,
+		updated_at TEXT NOT NULL
+	);
+`;
+
+// Columns added after the initial schema, appended to existing databases on startup.
+const METADATA_COLUMNS: Record<string, string> = {
+	style: "TEXT NOT NULL DEFAULT ''",
+	theme: "TEXT NOT NULL DEFAULT ''",
+	trigger_type: "TEXT NOT NULL DEFAULT ''",
+	source: "TEXT NOT NULL DEFAULT ''",
+	chat_model: "TEXT NOT NULL DEFAULT ''",
+	image_model: "TEXT NOT NULL DEFAULT ''",
+	prompt_version: "TEXT NOT NULL DEFAULT ''",
+	retries: 'INTEGER NOT NULL DEFAULT 0',
+	timings: 'TEXT',
+	replaces: 'INTEGER',
+};
+
+/**
+ * Stores images in indexed tables and documents as JSON blobs in a single SQLite database.
+ */
+export class SqliteStorage implements StorageBackend {
+	constructor(private readonly db: SqliteDatabase) {
+		this.db.exec(SCHEMA);
+		this.addMissingColumns();
+	}
+
+	describe(key: DocumentKey | 'images'): string {
+		return `${this.db.name}#${key}`;
+	}
+
+	async readDocument<T>(key: DocumentKey): Promise<T | undefined> {
+		const row = this.db.prepare('SELECT data FROM documents WHERE key = ?').get(key) as { data: string } | undefined;
+		return row ? (JSON.parse(row.data) as T) : undefined;
+	}
+
+	async writeDocument<T>(key: DocumentKey, data: T): Promise<void> {
+		this.db
+			.prepare(
+				`INSERT INTO documents (key, data, updated_at) VALUES (?, ?, ?)
+				ON CONFLICT (key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+			)
+			.run(key, JSON.stringify(data), new Date().toISOString());
+	}
+
+	async insertImages(images: NewImage[]): Promise<void> {
+		const insertAll = this.db.transaction(() => {
+			for (const { broadcaster, user, image } of images) {
+				this.insertImage(broadcaster.toLowerCase(), user.toLowerCase(), image);
+			}
+		});
+		insertAll();
+	}
+
+	async queryImages(query: ImageQuery): Promise<StoredImage[]> {
+		const { where, params } = this.buildWhere(query);
+		let sql = `
+			SELECT images.*, broadcasters.name AS broadcaster, users.name AS user
+			FROM images
+			JOIN broadcasters ON broadcasters.id = images.broadcaster_id
+			JOIN users ON users.id = images.user_id
+			${where}
+			ORDER BY images.date DESC, images.id DESC`;
+
+		if (query.limit !== undefined) {
+			sql += ' LIMIT @limit OFFSET @offset';
+			params.limit = query.limit;
+			params.offset = query.offset ?? 0;
+		}
+
+		const rows = this.db.prepare(sql).all(params) as ImageRow[];
+		return rows.map((row) => ({
+			id: row.id,
+			broadcaster: row.broadcaster,
+			user: row.user,
+			...withGenerationDefaults({
+				image: row.image,
+				analysis: row.analysis,
+				revisedPrompt: row.revised_prompt,
+				date: row.date,
+				style: row.style,
+				theme: row.theme,
+				trigger: row.trigger_type,
+				source: row.source,
+				chatModel: row.chat_model,
+				imageModel: row.image_model,
+				promptVersion: row.prompt_version,
+				retries: row.retries,
+				timings: row.timings ? (JSON.parse(row.timings) as GenerationTimings) : undefined,
+				...(row.replaces !== null && { replaces: row.replaces }),
+			}),
+		}));
+	}
+
+	async listBroadcasters(): Promise<string[]> {
+		const rows = this.db
+			.prepare(
+				`SELECT DISTINCT broadcasters.name AS name
+				FROM broadcasters
+				JOIN images ON images.broadcaster_id = broadcasters.id
+				ORDER BY broadcasters.name`,
+			)
+			.all() as { name: string }[];
+		return rows.map((row) => row.name);
+	}
+
+	async countImages(query: ImageCountQuery): Promise<number> {
+		const { where, params } = this.buildWhere(query);
+		const row = this.db
+			.prepare(
+				`SELECT COUNT(*) AS total
+				FROM images
+				JOIN broadcasters ON broadcasters.id = images.broadcaster_id
+				JOIN users ON users.id = images.user_id
+				${where}`,
+			)
+			.get(params) as { total: number };
+		return row.total;
+	}
+
+	async clearImages(): Promise<void> {
+		this.db.exec('DELETE FROM images');
+	}
+
+	async close(): Promise<void> {
+		this.db.close();
+	}
+
+	private insertImage(broadcaster: string, user: string, imageData: SingleImage): void {
+		const broadcasterId = this.getOrCreateId('broadcasters', broadcaster);
+		const userId = this.getOrCreateId('users', user);
+		this.db
+			.prepare(
+				`INSERT INTO images (
+					broadcaster_id, user_id, image, analysis, revised_prompt, date,
+					style, theme, trigger_type, source, chat_model, image_model, prompt_version, retries, timings,
+					replaces
+				)
+				VALUES (
+					@broadcasterId, @userId, @image, @analysis, @revisedPrompt, @date,
+					@style, @theme, @trigger, @source, @chatModel, @imageModel, @promptVersion, @retries, @timings,
+					@replaces
+				)`,
+			)
+			.run({
+				broadcasterId,
+				userId,
+				image: imageData.image,
+				analysis: imageData.analysis,
+				revisedPrompt: imageData.revisedPrompt,
+				date: imageData.date,
+				style: imageData.style,
+				theme: imageData.theme,
+				trigger: imageData.trigger,
+				source: imageData.source,
+				chatModel: imageData.chatModel,
+				imageModel: imageData.imageModel,
+				promptVersion: imageData.promptVersion,
+				retries: imageData.retries,
+				timings: JSON.stringify(imageData.timings),
+				replaces: imageData.replaces ?? null,
+			});
+	}
+
+	private addMissingColumns(): void {
+		const existing = new Set(
+			(this.db.prepare('PRAGMA table_info(images)').all() as { name: string }[]).map((column) => column.name),
+		);
+		for (const [name, definition] of Object.entries(METADATA_COLUMNS)) {
+			if (!existing.has(name)) {
+				this.db.exec(`ALTER TABLE images ADD COLUMN ${name} ${definition}`);
+			}
+		}
+	}
+
+	private getOrCreateId(table: 'broadcasters' | 'users', name: string): number {
+		this.db.prepare(`INSERT OR IGNORE INTO ${table} (name) VALUES (?)`).run(name);
+		const row = this.db.prepare(`SELECT id FROM ${table} WHERE name = ?`).get(name) as { id: number };
+		return row.id;
+	}
+
+	private buildWhere(query: ImageQuery): { where: string; params: Record<string, string | number> } {
+		const conditions: string[] = [];
+		const params: Record<string, string | number> = {};
+
+		if (query.broadcaster) {
+			conditions.push('broadcasters.name = @broadcaster');
+			params.broadcaster = query.broadcaster.toLowerCase();
+		}
+		if (query.user) {
+			conditions.push('users.name = @user');
+			params.user = query.user.toLowerCase();
+		}
+		if (query.from) {
+			conditions.push('images.date >= @from');
+			params.from = query.from;
+		}
+		if (query.to) {
+			conditions.push('images.date < @to');
+			params.to = query.to;
+		}
+
+		return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+	}
+}
@@ -0,0 +1,28 @@
+import { DataFileKey } from '../migrations/migrations';
+import { ImageQuery, SingleImage, StoredImage } from '../types/images';
+
+export type DocumentKey = Exclude<DataFileKey, 'images'>;
+
+export type NewImage = {
+	broadcaster: string;
+	user: string;
+	image: SingleImage;
+};
+
+export type ImageCountQuery = Omit<ImageQuery, 'limit' | 'offset'>;
+
+/**
+ * Where managers keep their state. Documents are whole JSON values (themes, meanings, ...),
+ * images are appended one by one and queried by broadcaster, user and date.
+ */
+export interface StorageBackend {
+	describe(key: DocumentKey | 'images'): string;
+	readDocument<T>(key: DocumentKey): Promise<T | undefined>;
+	writeDocument<T>(key: DocumentKey, data: T): Promise<void>;
+	insertImages(images: NewImage[]): Promise<void>;
+	queryImages(query: ImageQuery): Promise<StoredImage[]>;
+	countImages(query: ImageCountQuery): Promise<number>;
+	listBroadcasters(): Promise<string[]>;
+	clearImages(): Promise<void>;
+	close(): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { SqliteDatabase } from '../utils/database';
+import { StorageBackend } from './StorageBackend';
+import { SqliteStorage } from './SqliteStorage';
+import { JsonFileStorage } from './JsonFileStorage';
+import { MemoryStorage } from './MemoryStorage';
+
+export type StorageBackendName = 'file' | 'sqlite' | 'memory';
+
+export type Storage = {
+	documentStorage: StorageBackend;
+	imageStorage: StorageBackend;
+};
+
+/**
+ * Images always live in the database unless everything is kept in memory, the other state follows the backend name.
+ */
+export function createStorage(backend: StorageBackendName, dataDir: string, database: SqliteDatabase): Storage {
+	if (backend === 'memory') {
+		const memoryStorage = new MemoryStorage();
+		return { documentStorage: memoryStorage, imageStorage: memoryStorage };
+	}
+
+	const sqliteStorage = new SqliteStorage(database);
+	return {
+		documentStorage: backend === 'sqlite' ? sqliteStorage : new JsonFileStorage(dataDir),
+		imageStorage: sqliteStorage,
+	};
+}
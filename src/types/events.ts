@@ -0,0 +1,34 @@
+/** `custom`, `test` and `reroll` are sweatlings requested with a command. */
+export type EventTrigger = 'cheer' | 'raid' | 'redemption' | 'custom' | 'test' | 'reroll';
+
+export interface EventData {
+	broadcasterName: string;
+	userName: string;
+	userDisplayName: string;
+	isGifting?: boolean;
+	/** Twitch sub plan: `1000`, `2000`, `3000` or `Prime`. */
+	plan?: string;
+	/** Cumulative months subscribed. */
+	months?: number;
+	/** Consecutive months subscribed, if the user shares it. */
+	streak?: number;
+	/** Number of subs in a community gift. */
+	giftCount?: number;
+	/** Display names of the gift recipients shown in the gifter's group scene. */
+	recipients?: string[];
+	/** Set for events other than subs and gifts. */
+	trigger?: EventTrigger;
+	bits?: number;
+	/** Viewers brought along by a raid. */
+	viewers?: number;
+	/** Title of the redeemed channel-point reward. */
+	rewardTitle?: string;
+	/** Quiet sweatlings are only posted to Discord, not announced in chat. */
+	quiet?: boolean;
+	/** Who requested a sweatling with a command, they are answered instead of the user being thanked. */
+	requestedBy?: string;
+	/** Where the command was sent, requests from Discord are not answered in chat. */
+	source?: 'twitch' | 'discord';
+	/** Id of the stored image a reroll replaces. */
+	replaces?: number;
+}
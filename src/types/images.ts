@@ -0,0 +1,79 @@
+export type GenerationTimings = {
+	analysisMs: number;
+	generationMs: number;
+	uploadMs: number;
+	totalMs: number;
+};
+
+export type GenerationMetadata = {
+	style: string;
+	theme: string;
+	trigger: string;
+	source: string;
+	chatModel: string;
+	imageModel: string;
+	promptVersion: string;
+	retries: number;
+	timings: GenerationTimings;
+};
+
+export type SingleImage = {
+	image: string;
+	analysis: string;
+	revisedPrompt: string;
+	date: string;
+	/** Id of the image this one was rerolled from. */
+	replaces?: number;
+} & GenerationMetadata;
+
+/**
+ * Records written before generation metadata was tracked only carry these fields.
+ */
+export type LegacySingleImage = Pick<SingleImage, 'image' | 'analysis' | 'revisedPrompt' | 'date'> &
+	Partial<GenerationMetadata>;
+
+export type BroadcasterImages = {
+	[broadcaster: string]: {
+		[user: string]: LegacySingleImage[];
+	};
+};
+
+export type StoredImage = SingleImage & {
+	id: number;
+	broadcaster: string;
+	user: string;
+};
+
+/**
+ * A freshly generated image, either as a url to download it from or as the image itself.
+ */
+export type ImageSource = { url: string } | { data: Buffer };
+
+export type ImageQuery = {
+	broadcaster?: string;
+	user?: string;
+	from?: string;
+	to?: string;
+	limit?: number;
+	offset?: number;
+};
+
+export const DEFAULT_GENERATION_METADATA: GenerationMetadata = {
+	style: '',
+	theme: '',
+	trigger: '',
+	source: '',
+	chatModel: '',
+	imageModel: '',
+	promptVersion: '',
+	retries: 0,
+	timings: { analysisMs: 0, generationMs: 0, uploadMs: 0, totalMs: 0 },
+};
+
+export function withGenerationDefaults(image: LegacySingleImage): SingleImage {
+	return {
+		...DEFAULT_GENERATION_METADATA,
+		...image,
+		timings: { ...DEFAULT_GENERATION_METADATA.timings, ...image.timings },
+	};
+}
@@ -0,0 +1,36 @@
+import { EventData } from './events';
+import { GenerationMetadata } from './images';
+import { ModerationVerdict } from '../moderation/Moderator';
+
+export type GenerationStage = 'analysing' | 'generating' | 'uploading';
+
+export type GenerationJobState =
+	| 'pending'
+	| GenerationStage
+	| 'awaiting_approval'
+	| 'approving'
+	| 'stored'
+	| 'announced'
+	| 'rejected'
+	| 'deferred'
+	| 'skipped'
+	| 'failed';
+
+export type GenerationJobResult = {
+	image: string;
+	analysis: string;
+	revisedPrompt: string;
+	metadata?: GenerationMetadata;
+	moderation?: ModerationVerdict;
+};
+
+export type GenerationJob = {
+	id: string;
+	eventData: EventData;
+	state: GenerationJobState;
+	attempts: number;
+	result: GenerationJobResult | null;
+	error: string | null;
+	createdAt: string;
+	updatedAt: string;
+};
@@ -60,4 +60,17 @@ export class CloudflareUploader {
 
 		return this.sendRequest(formData);
 	}
+
+	public async uploadImageData(
+		data: Buffer,
+		metadata: Record<string, unknown> = {},
+	): Promise<CloudflareUploadResponse> {
+		const id = nanoid(10);
+		const formData = new FormData();
+		formData.append('file', data, { filename: `${id}.png`, contentType: 'image/png' });
+		formData.append('id', id);
+		formData.append('metadata', JSON.stringify(metadata));
+
+		return this.sendRequest(formData);
+	}
 }
@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import { z } from 'zod';
+import { getLastWrittenContent, isVersionedDataFile } from './persistence';
+
+export type WatchedDataFile = {
+	schema: z.ZodType;
+	reload: () => Promise<void>;
+};
+
+export class DataFileWatcher {
+	private watcher: FSWatcher | null = null;
+	private readonly pending = new Map<string, NodeJS.Timeout>();
+
+	constructor(
+		private readonly dataDir: string,
+		private readonly files: Record<string, WatchedDataFile>,
+		private readonly debounceMs: number = 500,
+	) {}
+
+	start(): void {
+		if (this.watcher) {
+			return;
+		}
+
+		this.watcher = watch(this.dataDir, (_eventType, fileName) => {
+			if (!fileName || !(fileName in this.files)) {
+				return;
+			}
+
+			// Editors and our own atomic writes emit several events per save, only act on the last one.
+			clearTimeout(this.pending.get(fileName));
+			this.pending.set(
+				fileName,
+				setTimeout(() => {
+					this.pending.delete(fileName);
+					this.handleChange(fileName).catch((error) => {
+						console.error(`Error reloading ${fileName}`, error);
+					});
+				}, this.debounceMs),
+			);
+		});
+		this.watcher.on('error', (error) => {
+			console.error(`Error watching ${this.dataDir}`, error);
+		});
+
+		console.log(`Watching ${this.dataDir} for changes to ${Object.keys(this.files).join(', ')}`);
+	}
+
+	stop(): void {
+		for (const timeout of this.pending.values()) {
+			clearTimeout(timeout);
+		}
+		this.pending.clear();
+		this.watcher?.close();
+		this.watcher = null;
+	}
+
+	/**
+	 * Validates the edited file and only then hands it to the manager, so an invalid edit never replaces loaded state.
+	 * Returns true if the manager reloaded the file.
+	 */
+	async handleChange(fileName: string): Promise<boolean> {
+		const file = this.files[fileName];
+		const filePath = path.join(this.dataDir, fileName);
+
+		let content: string;
+		try {
+			content = await fs.readFile(filePath, 'utf-8');
+		} catch (error) {
+			console.error(`Rejected change to ${fileName}: file could not be read`, error);
+			return false;
+		}
+
+		if (content === getLastWrittenContent(filePath)) {
+			return false;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(content);
+		} catch (error) {
+			console.error(`Rejected change to ${fileName}: invalid JSON. Keeping current state.`, error);
+			return false;
+		}
+
+		const result = file.schema.safeParse(isVersionedDataFile(parsed) ? parsed.data : parsed);
+		if (!result.success) {
+			console.error(`Rejected change to ${fileName}: validation failed. Keeping current state.`, result.error.message);
+			return false;
+		}
+
+		console.log(`Reloading ${fileName} after outside change`);
+		await file.reload();
+		return true;
+	}
+}
@@ -19,6 +19,10 @@ export class OpenAIManager {
 		this.client = new OpenAI(options);
 	}
 
+	getModel(): string {
+		return this.model;
+	}
+
 	async getChatCompletion(
 		messages: OpenAI.ChatCompletionMessageParam[],
 		options?: {
@@ -90,6 +94,18 @@ export class OpenAIManager {
 		return message.content;
 	}
 
+	/**
+	 * Returns whether the text is flagged and the names of the flagged categories.
+	 */
+	async moderate(input: string): Promise<{ flagged: boolean; categories: string[] }> {
+		const response = await this.client.moderations.create({ model: 'omni-moderation-latest', input });
+		const [result] = response.results;
+		const categories = Object.entries(result.categories)
+			.filter(([, flagged]) => flagged)
+			.map(([category]) => category);
+		return { flagged: result.flagged, categories };
+	}
+
 	async generateImage(params: OpenAI.Images.ImageGenerateParams): Promise<OpenAI.Images.ImagesResponse> {
 		return this.client.images.generate(params);
 	}
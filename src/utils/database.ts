@@ -0,0 +1,25 @@
+import * as path from 'path';
+import Database from 'better-sqlite3';
+
+export type SqliteDatabase = Database.Database;
+
+export function resolveDatabasePath(databaseUrl: string, rootDir: string): string {
+	if (databaseUrl === ':memory:') {
+		return databaseUrl;
+	}
+
+	const match = databaseUrl.match(/^(?:file|sqlite):(?:\/\/)?(.*)$/);
+	if (!match || !match[1]) {
+		throw new Error(`Unsupported DATABASE_URL: ${databaseUrl}. Expected file:<path> or sqlite:<path>`);
+	}
+
+	const filePath = decodeURIComponent(match[1]);
+	return path.isAbsolute(filePath) ? filePath : path.join(rootDir, filePath);
+}
+
+export function openDatabase(filename: string): SqliteDatabase {
+	const db = new Database(filename);
+	db.pragma('journal_mode = WAL');
+	db.pragma('foreign_keys = ON');
+	return db;
+}
@@ -1,14 +1,11 @@
 import * as path from 'path';
 import { PathLike, promises as fs } from 'fs';
 import { fileURLToPath } from 'url';
-import { STRUCTURED_OUTPUT_PROMPT, THEME_INSTRUCTION_BLOCK } from '../constants/prompts';
+import { z } from 'zod';
+import { DEFAULT_PROMPT_SET, PromptSet } from '../constants/prompts';
+import { finalSchema } from '../schemas/imageSchemas';
 
-export const isAdminOrBroadcaster = (userName: string, broadcasterName: string, twitchAdmins: Set<string>): boolean => {
-	const lowerUserName = userName.toLowerCase();
-	const lowerBroadcasterName = broadcasterName.toLowerCase();
-	const adminList = [...Array.from(twitchAdmins), lowerBroadcasterName];
-	return adminList.includes(lowerUserName);
-};
+export type StructuredOutput = z.infer<typeof finalSchema>;
 
 export async function ensureFileExists(filePath: string, defaultContent: string = ''): Promise<void> {
 	try {
@@ -84,11 +81,11 @@ export async function retryAsyncOperation<T, Args extends unknown[]>(
 
 export const truncate = (str: string, n: number): string => (str.length > n ? `${str.substring(0, n - 3)}...` : str);
 
-export function createSystemPrompt(date: string, theme?: string): string {
-	let prompt = STRUCTURED_OUTPUT_PROMPT.replace('__DATE__', date);
+export function createSystemPrompt(date: string, theme?: string, promptSet: PromptSet = DEFAULT_PROMPT_SET): string {
+	let prompt = promptSet.structuredOutputPrompt.replace('__DATE__', date);
 
 	if (theme) {
-		const themeInstructions = THEME_INSTRUCTION_BLOCK.replace('__THEME__', theme);
+		const themeInstructions = promptSet.themeInstructionBlock.replace('__THEME__', theme);
 		prompt = prompt.replace('__THEME_SECTION__', themeInstructions);
 	} else {
 		prompt = prompt.replace('__THEME_SECTION__', '');
@@ -98,3 +95,21 @@ export function createSystemPrompt(date: string, theme?: string): string {
 
 	return prompt;
 }
+
+/**
+ * Recovers the structured output from a stored analysis, which is the literal username line followed by the JSON.
+ * Returns undefined for analyses written before the structured output existed.
+ */
+export function parseStoredAnalysis(analysis: string): StructuredOutput | undefined {
+	const jsonStart = analysis.indexOf('{');
+	if (jsonStart === -1) {
+		return undefined;
+	}
+
+	try {
+		const result = finalSchema.safeParse(JSON.parse(analysis.slice(jsonStart)));
+		return result.success ? result.data : undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+
+const writeQueues = new Map<string, Promise<void>>();
+const lastWrittenContent = new Map<string, string>();
+
+function isMissingFileError(error: unknown): boolean {
+	return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+export function getBackupPath(filePath: string): string {
+	return `${filePath}.bak`;
+}
+
+/**
+ * Writes JSON to a temporary file and renames it over the target, so a crash never leaves a half-written file.
+ * The previous version is kept as `.bak`. Writes to the same file are serialised in call order.
+ */
+export function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+	const previous = writeQueues.get(filePath) ?? Promise.resolve();
+	const next = previous.catch(() => undefined).then(() => writeAtomically(filePath, JSON.stringify(data, null, 4)));
+
+	writeQueues.set(filePath, next);
+	next
+		.finally(() => {
+			if (writeQueues.get(filePath) === next) {
+				writeQueues.delete(filePath);
+			}
+		})
+		.catch(() => undefined);
+
+	return next;
+}
+
+/**
+ * Reads and parses a JSON file. If the file cannot be parsed, the `.bak` copy is used instead.
+ * Errors for a missing file are rethrown untouched, so callers can keep treating ENOENT as "start empty".
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T> {
+	const data = await fs.readFile(filePath, 'utf-8');
+	try {
+		return JSON.parse(data) as T;
+	} catch (parseError) {
+		const backupPath = getBackupPath(filePath);
+		console.error(`Error parsing ${filePath}, falling back to ${backupPath}`, parseError);
+
+		try {
+			return JSON.parse(await fs.readFile(backupPath, 'utf-8')) as T;
+		} catch (backupError) {
+			if (!isMissingFileError(backupError)) {
+				console.error(`Error reading backup file at ${backupPath}`, backupError);
+			}
+			throw parseError;
+		}
+	}
+}
+
+async function writeAtomically(filePath: string, content: string): Promise<void> {
+	const tempPath = `${filePath}.${process.pid}.tmp`;
+
+	const handle = await fs.open(tempPath, 'w');
+	try {
+		await handle.writeFile(content, 'utf-8');
+		await handle.sync();
+	} finally {
+		await handle.close();
+	}
+
+	// Only a parseable file is worth keeping, a corrupt one must not overwrite the last good backup.
+	try {
+		const current = await fs.readFile(filePath, 'utf-8');
+		JSON.parse(current);
+		await fs.writeFile(getBackupPath(filePath), current, 'utf-8');
+	} catch (error) {
+		if (!(error instanceof SyntaxError) && !isMissingFileError(error)) {
+			await fs.rm(tempPath, { force: true });
+			throw error;
+		}
+	}
+
+	await fs.rename(tempPath, filePath);
+	lastWrittenContent.set(filePath, content);
+}
+
+/**
+ * Returns the content this process last wrote to the file, used to tell our own writes apart from outside edits.
+ */
+export function getLastWrittenContent(filePath: string): string | undefined {
+	return lastWrittenContent.get(filePath);
+}
+
+export type VersionedDataFile<T> = {
+	schemaVersion: number;
+	data: T;
+};
+
+export function isVersionedDataFile(value: unknown): value is VersionedDataFile<unknown> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		typeof (value as VersionedDataFile<unknown>).schemaVersion === 'number' &&
+		'data' in value
+	);
+}
+
+export function createDataFile<T>(schemaVersion: number, data: T): VersionedDataFile<T> {
+	return { schemaVersion, data };
+}
+
+/**
+ * Reads a versioned data file and returns its payload. Files written before versioning are returned as-is.
+ */
+export async function readDataFile<T>(filePath: string): Promise<T> {
+	const content = await readJsonFile<unknown>(filePath);
+	return (isVersionedDataFile(content) ? content.data : content) as T;
+}
+
+export function writeDataFile<T>(filePath: string, schemaVersion: number, data: T): Promise<void> {
+	return writeJsonFile(filePath, createDataFile(schemaVersion, data));
+}
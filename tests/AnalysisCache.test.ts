@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { AnalysisCache, UsernameAnalysis } from '../src/managers/AnalysisCache';
+import { openDatabase } from '../src/utils/database';
+
+describe('AnalysisCache', () => {
+	let analysisCache: AnalysisCache;
+
+	const analysis = (interpretation: string): UsernameAnalysis => ({
+		reasoning: { reasoning_steps: ['a step'] },
+		interpretation,
+	});
+
+	beforeEach(() => {
+		analysisCache = new AnalysisCache(openDatabase(':memory:'));
+	});
+
+	it('returns the analysis for the same user, meaning and prompt version', () => {
+		analysisCache.set('User1', 'user1', 'default@1', analysis('first'));
+
+		expect(analysisCache.get('user1', 'user1', 'default@1')).to.deep.equal(analysis('first'));
+		expect(analysisCache.get('user1', 'user1', 'default@2')).to.equal(undefined);
+		expect(analysisCache.get('user2', 'user2', 'default@1')).to.equal(undefined);
+	});
+
+	it('ignores entries created with a different meaning', () => {
+		analysisCache.set('user1', 'user1', 'default@1', analysis('first'));
+
+		expect(analysisCache.get('user1', 'a new meaning', 'default@1')).to.equal(undefined);
+
+		analysisCache.set('user1', 'a new meaning', 'default@1', analysis('second'));
+		expect(analysisCache.get('user1', 'a new meaning', 'default@1')).to.deep.equal(analysis('second'));
+	});
+
+	it('drops every prompt version of a user on invalidation', () => {
+		analysisCache.set('user1', 'user1', 'default@1', analysis('first'));
+		analysisCache.set('user1', 'user1', 'default@2', analysis('first'));
+		analysisCache.set('user2', 'user2', 'default@1', analysis('other'));
+
+		analysisCache.invalidate('USER1');
+
+		expect(analysisCache.get('user1', 'user1', 'default@1')).to.equal(undefined);
+		expect(analysisCache.get('user1', 'user1', 'default@2')).to.equal(undefined);
+		expect(analysisCache.get('user2', 'user2', 'default@1')).to.deep.equal(analysis('other'));
+	});
+});
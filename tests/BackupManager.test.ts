@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BackupManager } from '../src/managers/BackupManager';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { withGenerationDefaults } from '../src/types/images';
+
+describe('BackupManager', () => {
+	let tempDir: string;
+	let tokenFilePath: string;
+
+	const image = (date: string) =>
+		withGenerationDefaults({ image: `https://example.com/${date}.png`, analysis: '', revisedPrompt: '', date });
+
+	const createBot = () => {
+		const storage = new MemoryStorage();
+		const imageDataStore = new ImageDataStore(storage);
+		return { storage, imageDataStore, backupManager: new BackupManager(storage, imageDataStore, tokenFilePath) };
+	};
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-'));
+		tokenFilePath = path.join(tempDir, 'tokens.json');
+		await fs.writeFile(tokenFilePath, JSON.stringify({ accessToken: 'access', refreshToken: 'refresh' }));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('leaves tokens out unless asked for', async () => {
+		const { backupManager } = createBot();
+
+		expect((await backupManager.exportArchive()).tokens).to.equal(undefined);
+		expect((await backupManager.exportArchive({ includeTokens: true })).tokens).to.deep.equal({
+			accessToken: 'access',
+			refreshToken: 'refresh',
+		});
+	});
+
+	it('restores an exported archive into an empty bot', async () => {
+		const source = createBot();
+		await source.storage.writeDocument('themes', { broadcaster1: 'space' });
+		await source.storage.writeDocument('ignore', ['bot']);
+		await source.imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		await source.imageDataStore.storeImageData('broadcaster1', 'user2', image('2024-01-02T00:00:00.000Z'));
+		const archive = JSON.parse(JSON.stringify(await source.backupManager.exportArchive()));
+
+		const target = createBot();
+		const result = await target.backupManager.importArchive(archive, 'merge');
+
+		expect(result).to.deep.equal({ mode: 'merge', images: 2, skippedImages: 0, tokens: false });
+		expect(await target.storage.readDocument('themes')).to.deep.equal({ broadcaster1: 'space' });
+		expect(await target.storage.readDocument('ignore')).to.deep.equal(['bot']);
+		expect((await target.imageDataStore.getImages()).map(({ id, user }) => [id, user])).to.deep.equal([
+			[2, 'user2'],
+			[1, 'user1'],
+		]);
+	});
+
+	it('merges into existing state without duplicating images', async () => {
+		const { storage, imageDataStore, backupManager } = createBot();
+		await storage.writeDocument('themes', { broadcaster1: 'space', broadcaster2: 'ocean' });
+		await storage.writeDocument('bannedGifters', { broadcaster1: ['gifter1'] });
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		const archive = await backupManager.exportArchive();
+		archive.data.themes = { broadcaster1: 'jungle' };
+		archive.data.bannedGifters = { broadcaster1: ['gifter2'] };
+
+		const result = await backupManager.importArchive(archive, 'merge');
+
+		expect(result.images).to.equal(0);
+		expect(result.skippedImages).to.equal(1);
+		expect(await storage.readDocument('themes')).to.deep.equal({ broadcaster1: 'jungle', broadcaster2: 'ocean' });
+		expect(await storage.readDocument('bannedGifters')).to.deep.equal({ broadcaster1: ['gifter1', 'gifter2'] });
+	});
+
+	it('replaces state and tokens', async () => {
+		const { storage, imageDataStore, backupManager } = createBot();
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		const archive = await backupManager.exportArchive({ includeTokens: true });
+		archive.data.images = { broadcaster2: { user2: [image('2024-02-01T00:00:00.000Z')] } };
+		archive.tokens = { accessToken: 'restored', refreshToken: null };
+		await storage.writeDocument('meanings', { user1: 'meaning' });
+
+		const result = await backupManager.importArchive(archive, 'replace');
+
+		expect(result.tokens).to.equal(true);
+		expect(await storage.readDocument('meanings')).to.deep.equal({});
+		expect(await imageDataStore.getBroadcasters()).to.deep.equal(['broadcaster2']);
+		expect(JSON.parse(await fs.readFile(tokenFilePath, 'utf-8')).accessToken).to.equal('restored');
+	});
+
+	it('migrates archives from older schema versions', async () => {
+		const { imageDataStore, backupManager } = createBot();
+		const archive = await backupManager.exportArchive();
+		archive.schemaVersions.images = 0;
+		archive.data.images = { broadcaster1: [{ user: 'user1', image: 'https://example.com/1.png', date: '2024-01-01' }] };
+
+		await backupManager.importArchive(archive, 'merge');
+
+		expect((await imageDataStore.getUserImages('broadcaster1', 'user1'))[0].image).to.equal(
+			'https://example.com/1.png',
+		);
+	});
+
+	it('rejects an invalid archive without changing state', async () => {
+		const { storage, backupManager } = createBot();
+		await storage.writeDocument('themes', { broadcaster1: 'space' });
+		const archive = await backupManager.exportArchive();
+		archive.data.themes = { broadcaster1: 42 };
+
+		let error: unknown;
+		try {
+			await backupManager.importArchive(archive, 'replace');
+		} catch (e) {
+			error = e;
+		}
+
+		expect(error).to.be.an('error');
+		expect(await storage.readDocument('themes')).to.deep.equal({ broadcaster1: 'space' });
+	});
+});
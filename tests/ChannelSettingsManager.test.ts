@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { ChannelSettingsManager } from '../src/managers/ChannelSettingsManager';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { DEFAULT_MESSAGES, isMessageKey, renderMessage } from '../src/constants/messages';
+
+describe('ChannelSettingsManager', () => {
+	let storage: MemoryStorage;
+	let channelSettingsManager: ChannelSettingsManager;
+
+	beforeEach(async () => {
+		storage = new MemoryStorage();
+		await storage.writeDocument('settings', {
+			Channel1: { messages: { image: 'Thanks @__USER__ for __VERB__ dnkLove __URL__ (__STYLE__)' } },
+		});
+		channelSettingsManager = new ChannelSettingsManager(storage);
+		await channelSettingsManager.loadSettings();
+	});
+
+	it('uses the channel template and falls back to the default message', () => {
+		const values = { user: 'user1', verb: 'subscribing', url: 'https://example.com/1.png', style: 'oil' };
+
+		expect(channelSettingsManager.formatMessage('channel1', 'image', values)).to.equal(
+			'Thanks @user1 for subscribing dnkLove https://example.com/1.png (oil)',
+		);
+		expect(channelSettingsManager.formatMessage('channel2', 'image', values)).to.equal(
+			'Thank you @user1 for subscribing dnkLove This is for you: https://example.com/1.png',
+		);
+		expect(channelSettingsManager.getMessageTemplate('channel1', 'myai')).to.equal(DEFAULT_MESSAGES.myai);
+	});
+
+	it('sets and resets templates per channel and persists them', async () => {
+		await channelSettingsManager.setMessageTemplate('Channel2', 'myai', '@__USER__ https://example.com/user/__USER__');
+
+		expect(channelSettingsManager.formatMessage('channel2', 'myai', { user: 'user1' })).to.equal(
+			'@user1 https://example.com/user/user1',
+		);
+		expect(await channelSettingsManager.resetMessageTemplate('channel1', 'image')).to.equal(true);
+		expect(await channelSettingsManager.resetMessageTemplate('channel1', 'image')).to.equal(false);
+		expect(await storage.readDocument('settings')).to.deep.equal({
+			channel1: { messages: {} },
+			channel2: { messages: { myai: '@__USER__ https://example.com/user/__USER__' } },
+		});
+	});
+
+	it('only accepts the known message keys', () => {
+		expect(isMessageKey('myai')).to.equal(true);
+		expect(isMessageKey('constructor')).to.equal(false);
+		expect(isMessageKey('toString')).to.equal(false);
+	});
+
+	it('leaves missing values empty and unknown placeholders untouched', () => {
+		expect(renderMessage('@__USER__ __URL__ __UNKNOWN__', { user: 'user1' })).to.equal('@user1  __UNKNOWN__');
+	});
+});
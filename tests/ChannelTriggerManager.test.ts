@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChannelTriggerManager } from '../src/managers/ChannelTriggerManager';
+import { LocalChannelEventSource } from '../src/mock/LocalChannelEventSource';
+import { EventData } from '../src/types/events';
+
+describe('ChannelTriggerManager', () => {
+	let tempDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'triggers-'));
+		filePath = path.join(tempDir, 'triggers.json');
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function loadTriggers(triggers: unknown): Promise<ChannelTriggerManager> {
+		await fs.writeFile(filePath, JSON.stringify(triggers));
+		const channelTriggerManager = new ChannelTriggerManager(filePath);
+		await channelTriggerManager.loadTriggers();
+		return channelTriggerManager;
+	}
+
+	function subscribe(channelTriggerManager: ChannelTriggerManager, broadcaster: string) {
+		const source = new LocalChannelEventSource();
+		const events: EventData[] = [];
+		channelTriggerManager.subscribe(source, '1', broadcaster, (eventData) => events.push(eventData));
+		source.start();
+		return { source, events };
+	}
+
+	it('has no triggers without a file', async () => {
+		const channelTriggerManager = new ChannelTriggerManager(filePath);
+		await channelTriggerManager.loadTriggers();
+
+		expect(channelTriggerManager.hasTriggers('channel1')).to.equal(false);
+	});
+
+	it('only passes on cheers and raids above the thresholds', async () => {
+		const channelTriggerManager = await loadTriggers({
+			default: { cheer: { minBits: 1000 }, raid: { minViewers: 10 } },
+		});
+		const { source, events } = subscribe(channelTriggerManager, 'channel1');
+
+		source.emitCheer('1', { broadcasterName: 'channel1', userName: 'user1', userDisplayName: 'User1', bits: 500 });
+		source.emitCheer('1', { broadcasterName: 'channel1', userName: null, userDisplayName: null, bits: 1000 });
+		source.emitRaid('1', {
+			broadcasterName: 'channel1',
+			raiderName: 'raider1',
+			raiderDisplayName: 'Raider1',
+			viewers: 5,
+		});
+		source.emitRaid('1', {
+			broadcasterName: 'channel1',
+			raiderName: 'raider2',
+			raiderDisplayName: 'Raider2',
+			viewers: 50,
+		});
+
+		expect(events).to.deep.equal([
+			{
+				broadcasterName: 'channel1',
+				userName: 'Anonymous',
+				userDisplayName: 'Anonymous',
+				trigger: 'cheer',
+				bits: 1000,
+			},
+			{
+				broadcasterName: 'channel1',
+				userName: 'raider2',
+				userDisplayName: 'Raider2',
+				trigger: 'raid',
+				viewers: 50,
+			},
+		]);
+	});
+
+	it('lets channel triggers replace the default ones', async () => {
+		const channelTriggerManager = await loadTriggers({
+			default: { cheer: { minBits: 1000 } },
+			channels: { Channel2: { cheer: { enabled: false } } },
+		});
+
+		expect(channelTriggerManager.hasTriggers('channel1')).to.equal(true);
+		expect(channelTriggerManager.hasTriggers('channel2')).to.equal(false);
+		expect(channelTriggerManager.getTriggers('channel2').cheer).to.deep.equal({ enabled: false, minBits: 500 });
+	});
+
+	it('matches redemptions by reward title regardless of case', async () => {
+		const channelTriggerManager = await loadTriggers({
+			default: { redemption: { rewardTitle: 'Draw Me' } },
+		});
+		const { source, events } = subscribe(channelTriggerManager, 'channel1');
+
+		const redemption = { broadcasterName: 'channel1', userName: 'user1', userDisplayName: 'User1', rewardId: 'abc' };
+		source.emitRedemption('1', { ...redemption, rewardTitle: 'Hydrate' });
+		source.emitRedemption('1', { ...redemption, rewardTitle: 'draw me' });
+
+		expect(events).to.have.length(1);
+		expect(events[0]).to.include({ trigger: 'redemption', userName: 'user1', rewardTitle: 'draw me' });
+	});
+
+	it('does not subscribe to disabled trigger types', async () => {
+		const channelTriggerManager = await loadTriggers({
+			default: { cheer: { minBits: 1 } },
+		});
+		const { source, events } = subscribe(channelTriggerManager, 'channel1');
+
+		source.emitRaid('1', {
+			broadcasterName: 'channel1',
+			raiderName: 'raider1',
+			raiderDisplayName: 'Raider1',
+			viewers: 99,
+		});
+		source.emitCheer('1', { broadcasterName: 'channel1', userName: 'user1', userDisplayName: 'User1', bits: 1 });
+
+		expect(events.map((event) => event.trigger)).to.deep.equal(['cheer']);
+	});
+
+	it('keeps the current triggers when the file becomes invalid', async () => {
+		const channelTriggerManager = await loadTriggers({ default: { cheer: {} } });
+
+		await fs.writeFile(filePath, JSON.stringify({ default: { redemption: {} } }));
+		await channelTriggerManager.loadTriggers();
+
+		expect(channelTriggerManager.getTriggers('channel1')).to.deep.equal({ cheer: { enabled: true, minBits: 500 } });
+	});
+});
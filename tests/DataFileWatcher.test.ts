@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataFileWatcher } from '../src/utils/DataFileWatcher';
+import { ThemeManager } from '../src/managers/ThemeManager';
+import { themesFileSchema } from '../src/schemas/dataFileSchemas';
+import { JsonFileStorage } from '../src/storage/JsonFileStorage';
+
+describe('DataFileWatcher', () => {
+	let tempDir: string;
+	let filePath: string;
+	let themeManager: ThemeManager;
+	let watcher: DataFileWatcher;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watcher-'));
+		filePath = path.join(tempDir, 'themes.json');
+		themeManager = new ThemeManager(new JsonFileStorage(tempDir));
+		await themeManager.setTheme('broadcaster1', 'halloween');
+		watcher = new DataFileWatcher(tempDir, {
+			'themes.json': { schema: themesFileSchema, reload: () => themeManager.loadThemes() },
+		});
+	});
+
+	afterEach(async () => {
+		watcher.stop();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('reloads valid outside edits', async () => {
+		await fs.writeFile(filePath, JSON.stringify({ schemaVersion: 1, data: { broadcaster1: 'christmas' } }), 'utf-8');
+
+		expect(await watcher.handleChange('themes.json')).to.be.true;
+		expect(themeManager.getBroadcasterTheme('broadcaster1')).to.equal('christmas');
+	});
+
+	it('ignores its own writes', async () => {
+		expect(await watcher.handleChange('themes.json')).to.be.false;
+	});
+
+	it('keeps state when the edit is not valid JSON', async () => {
+		await fs.writeFile(filePath, '{"schemaVersion": 1, "data": {', 'utf-8');
+
+		expect(await watcher.handleChange('themes.json')).to.be.false;
+		expect(themeManager.getBroadcasterTheme('broadcaster1')).to.equal('halloween');
+	});
+
+	it('keeps state when the edit does not match the schema', async () => {
+		await fs.writeFile(filePath, JSON.stringify({ schemaVersion: 1, data: { broadcaster1: 42 } }), 'utf-8');
+
+		expect(await watcher.handleChange('themes.json')).to.be.false;
+		expect(themeManager.getBroadcasterTheme('broadcaster1')).to.equal('halloween');
+	});
+
+	it('picks up changes through the file system watcher', async () => {
+		watcher = new DataFileWatcher(
+			tempDir,
+			{ 'themes.json': { schema: themesFileSchema, reload: () => themeManager.loadThemes() } },
+			10,
+		);
+		watcher.start();
+
+		await fs.writeFile(filePath, JSON.stringify({ schemaVersion: 1, data: { broadcaster1: 'spooky' } }), 'utf-8');
+		for (let i = 0; i < 50 && themeManager.getBroadcasterTheme('broadcaster1') !== 'spooky'; i++) {
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+
+		expect(themeManager.getBroadcasterTheme('broadcaster1')).to.equal('spooky');
+	});
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { GalleryServer } from '../src/server/GalleryServer';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { withGenerationDefaults } from '../src/types/images';
+
+describe('GalleryServer', () => {
+	let imageDataStore: ImageDataStore;
+	let server: Server;
+	let baseUrl: string;
+
+	before(async () => {
+		imageDataStore = new ImageDataStore(new MemoryStorage());
+		for (let i = 1; i <= 3; i++) {
+			await imageDataStore.storeImageData(
+				'broadcaster1',
+				i === 3 ? 'user2' : 'user1',
+				withGenerationDefaults({
+					image: `https://example.com/${i}.png`,
+					analysis: `analysis ${i}`,
+					revisedPrompt: `<prompt ${i}>`,
+					date: `2024-01-0${i}T00:00:00.000Z`,
+				}),
+			);
+		}
+
+		server = new GalleryServer(imageDataStore).getApp().listen(0);
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	after(() => {
+		server.close();
+		imageDataStore.close();
+	});
+
+	it('rejects starting on a port that is in use', async () => {
+		const galleryServer = new GalleryServer(imageDataStore);
+		let error: unknown;
+		try {
+			await galleryServer.start((server.address() as AddressInfo).port);
+		} catch (caught) {
+			error = caught;
+		}
+
+		expect(error).to.have.property('code', 'EADDRINUSE');
+		await galleryServer.stop();
+	});
+
+	it('lists images by broadcaster with pagination', async () => {
+		const response = await fetch(`${baseUrl}/api/broadcasters/broadcaster1/images?pageSize=2&page=2`);
+		const body = await response.json();
+
+		expect(body.total).to.equal(3);
+		expect(body.images).to.have.lengthOf(1);
+		expect(body.images[0].image).to.equal('https://example.com/1.png');
+	});
+
+	it('lists images by user including analysis and revised prompt', async () => {
+		const response = await fetch(`${baseUrl}/api/broadcasters/broadcaster1/users/USER1/images`);
+		const body = await response.json();
+
+		expect(body.images).to.have.lengthOf(2);
+		expect(body.images[0]).to.include({ analysis: 'analysis 2', revisedPrompt: '<prompt 2>' });
+	});
+
+	it('renders an escaped html gallery', async () => {
+		const response = await fetch(`${baseUrl}/gallery/broadcaster1`);
+		const html = await response.text();
+
+		expect(response.headers.get('content-type')).to.include('text/html');
+		expect(html).to.include('https://example.com/3.png');
+		expect(html).to.include('&lt;prompt 3&gt;');
+	});
+});
@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import { GenerationJobQueue } from '../src/managers/GenerationJobQueue';
+import { openDatabase, SqliteDatabase } from '../src/utils/database';
+
+describe('GenerationJobQueue', () => {
+	let db: SqliteDatabase;
+	let jobQueue: GenerationJobQueue;
+
+	beforeEach(() => {
+		db = openDatabase(':memory:');
+		jobQueue = new GenerationJobQueue(db);
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	it('returns unfinished jobs for a broadcaster', () => {
+		const pending = jobQueue.enqueue({ broadcasterName: 'Broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+		const announced = jobQueue.enqueue({
+			broadcasterName: 'broadcaster1',
+			userName: 'user2',
+			userDisplayName: 'User2',
+		});
+		jobQueue.enqueue({ broadcasterName: 'broadcaster2', userName: 'user3', userDisplayName: 'User3' });
+		jobQueue.setState(announced.id, 'announced');
+
+		const jobs = jobQueue.getUnfinishedJobs('broadcaster1');
+
+		expect(jobs.map((job) => job.id)).to.deep.equal([pending.id]);
+		expect(jobs[0].eventData.isGifting).to.be.false;
+	});
+
+	it('skips jobs claimed by this process', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+
+		expect(jobQueue.claim(job.id)).to.be.true;
+		expect(jobQueue.claim(job.id)).to.be.false;
+		expect(jobQueue.getUnfinishedJobs()).to.be.empty;
+
+		jobQueue.release(job.id);
+		expect(jobQueue.getUnfinishedJobs()[0].attempts).to.equal(1);
+	});
+
+	it('does not count claims that are no attempt', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+
+		jobQueue.claim(job.id);
+		jobQueue.release(job.id);
+		jobQueue.claim(job.id, false);
+		jobQueue.release(job.id);
+
+		expect(jobQueue.getJob(job.id)?.attempts).to.equal(1);
+	});
+
+	it('keeps the uploaded result so a resumed job only needs announcing', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+		jobQueue.setState(job.id, 'uploading');
+		jobQueue.saveResult(job.id, { image: 'https://example.com/1.png', analysis: 'analysis', revisedPrompt: 'prompt' });
+
+		const [resumed] = jobQueue.getUnfinishedJobs();
+
+		expect(resumed.state).to.equal('uploading');
+		expect(resumed.result?.image).to.equal('https://example.com/1.png');
+	});
+
+	it('resumes jobs whose image is stored but not yet announced', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+		jobQueue.saveResult(job.id, { image: 'https://example.com/1.png', analysis: 'analysis', revisedPrompt: 'prompt' });
+		jobQueue.setState(job.id, 'stored');
+
+		const [resumed] = jobQueue.getUnfinishedJobs();
+
+		expect(resumed.state).to.equal('stored');
+		expect(resumed.result?.image).to.equal('https://example.com/1.png');
+	});
+
+	it('keeps the details of gift events', () => {
+		const job = jobQueue.enqueue({
+			broadcasterName: 'broadcaster1',
+			userName: 'gifter',
+			userDisplayName: 'Gifter',
+			isGifting: true,
+			giftCount: 20,
+			recipients: ['User1', 'User2'],
+		});
+
+		expect(jobQueue.getJob(job.id)?.eventData).to.deep.equal({
+			broadcasterName: 'broadcaster1',
+			userName: 'gifter',
+			userDisplayName: 'Gifter',
+			isGifting: true,
+			giftCount: 20,
+			recipients: ['User1', 'User2'],
+		});
+	});
+
+	it('does not resume jobs waiting for approval', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+		jobQueue.saveResult(job.id, {
+			image: 'https://example.com/1.png',
+			analysis: 'analysis',
+			revisedPrompt: 'prompt',
+			moderation: { flagged: true, reasons: ['image: keywords (prompt)'] },
+		});
+		jobQueue.setState(job.id, 'awaiting_approval');
+
+		expect(jobQueue.getUnfinishedJobs()).to.be.empty;
+		expect(jobQueue.getJob(job.id)?.result?.moderation?.flagged).to.be.true;
+	});
+
+	it('lets only one caller take a job out of a state', () => {
+		const job = jobQueue.enqueue({ broadcasterName: 'broadcaster1', userName: 'user1', userDisplayName: 'User1' });
+		jobQueue.setState(job.id, 'awaiting_approval');
+
+		expect(jobQueue.transition(job.id, 'awaiting_approval', 'approving')).to.equal(true);
+		expect(jobQueue.transition(job.id, 'awaiting_approval', 'rejected')).to.equal(false);
+		expect(jobQueue.getJob(job.id)?.state).to.equal('approving');
+		expect(jobQueue.getUnfinishedJobs().map((unfinished) => unfinished.id)).to.deep.equal([job.id]);
+	});
+});
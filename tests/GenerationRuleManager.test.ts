@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GenerationRuleManager } from '../src/managers/GenerationRuleManager';
+import { GenerationRulesFile } from '../src/schemas/generationRuleSchemas';
+
+describe('GenerationRuleManager', () => {
+	let tempDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'generation-rules-'));
+		filePath = path.join(tempDir, 'generation-rules.json');
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function loadRules(rules: Partial<GenerationRulesFile>): Promise<GenerationRuleManager> {
+		await fs.writeFile(filePath, JSON.stringify(rules));
+		const generationRuleManager = new GenerationRuleManager(filePath);
+		await generationRuleManager.loadRules();
+		return generationRuleManager;
+	}
+
+	it('gives every sub the same treatment without rules', async () => {
+		const generationRuleManager = new GenerationRuleManager(filePath);
+		await generationRuleManager.loadRules();
+
+		expect(generationRuleManager.getOptions('channel1', { plan: '3000', months: 24 })).to.deep.equal({
+			image: {},
+			flavors: [],
+			styles: [],
+		});
+	});
+
+	it('applies the matching default and channel rules in order', async () => {
+		const generationRuleManager = await loadRules({
+			default: [
+				{ match: { plans: ['3000'] }, quality: 'high', flavor: 'A golden __PLAN__ crown.' },
+				{ match: { monthsMultipleOf: 12 }, flavor: 'A banner celebrating __MONTHS__ months.' },
+			],
+			channels: {
+				Channel1: [{ match: { minMonths: 24 }, size: 'landscape', quality: 'standard', styles: ['pixel'] }],
+			},
+		});
+
+		expect(generationRuleManager.getOptions('channel1', { plan: '3000', months: 24 })).to.deep.equal({
+			image: { quality: 'standard', size: 'landscape' },
+			flavors: ['A golden Tier 3 crown.', 'A banner celebrating 24 months.'],
+			styles: ['pixel'],
+		});
+		expect(generationRuleManager.getOptions('channel2', { plan: '1000', months: 13 })).to.deep.equal({
+			image: {},
+			flavors: [],
+			styles: [],
+		});
+	});
+
+	it('keeps the current rules when the file is invalid', async () => {
+		const generationRuleManager = await loadRules({ default: [{ match: { minStreak: 3 }, quality: 'high' }] });
+		await fs.writeFile(filePath, JSON.stringify({ default: [{ quality: 'ultra' }] }));
+		await generationRuleManager.loadRules();
+
+		expect(generationRuleManager.getOptions('channel1', { streak: 3 }).image).to.deep.equal({ quality: 'high' });
+	});
+});
@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { GiftBatch, GiftBatcher, planGiftBatch } from '../src/managers/GiftBatcher';
+import { openDatabase, SqliteDatabase } from '../src/utils/database';
+
+const recipients = ['user1', 'user2', 'user3'].map((userName) => ({
+	userName,
+	userDisplayName: userName.toUpperCase(),
+}));
+
+const communityGift: GiftBatch = {
+	broadcasterName: 'broadcaster1',
+	gifterName: 'gifter',
+	gifterDisplayName: 'Gifter',
+	isCommunityGift: true,
+	giftCount: 50,
+	recipients,
+};
+
+describe('GiftBatcher', () => {
+	let db: SqliteDatabase;
+
+	beforeEach(() => {
+		db = openDatabase(':memory:');
+	});
+
+	it('collects the gifts of one gifter into a single batch', async () => {
+		const batches: GiftBatch[] = [];
+		const giftBatcher = new GiftBatcher(db, 20, (batch) => batches.push(batch));
+
+		giftBatcher.addCommunityGift('broadcaster1', 'gifter', 'Gifter', 3);
+		for (const recipient of recipients) {
+			giftBatcher.addGift('broadcaster1', 'gifter', 'Gifter', recipient);
+		}
+		giftBatcher.addGift('broadcaster1', 'other', 'Other', recipients[0]);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(batches).to.have.length(2);
+		expect(batches[0]).to.deep.include({ gifterName: 'gifter', isCommunityGift: true, giftCount: 3 });
+		expect(batches[0].recipients).to.deep.equal(recipients);
+		expect(batches[1]).to.deep.include({ gifterName: 'other', isCommunityGift: false, giftCount: 1 });
+	});
+
+	it('restores the batches that were open when the bot stopped', async () => {
+		const stopped = new GiftBatcher(db, 40, () => {});
+		stopped.addCommunityGift('broadcaster1', null, null, 10);
+		stopped.addGift('broadcaster1', null, null, recipients[0]);
+
+		const batches: GiftBatch[] = [];
+		const giftBatcher = new GiftBatcher(db, 10, (batch) => batches.push(batch));
+		expect(giftBatcher.restore('broadcaster2')).to.equal(0);
+		expect(giftBatcher.restore('Broadcaster1')).to.equal(1);
+		await new Promise((resolve) => setTimeout(resolve, 25));
+
+		expect(batches).to.have.length(1);
+		expect(batches[0]).to.deep.include({ gifterName: null, isCommunityGift: true, giftCount: 10 });
+		expect(batches[0].recipients).to.deep.equal([recipients[0]]);
+		expect(new GiftBatcher(db, 10, () => {}).restore('broadcaster1')).to.equal(0);
+		await new Promise((resolve) => setTimeout(resolve, 25));
+	});
+});
+
+describe('planGiftBatch', () => {
+	it('keeps the sweatling of a lone gift for the recipient', () => {
+		const batch = { ...communityGift, isCommunityGift: false, giftCount: 1, recipients: [recipients[0]] };
+
+		expect(planGiftBatch(batch, 'group', 5)).to.deep.equal([{ broadcasterName: 'broadcaster1', ...recipients[0] }]);
+		expect(planGiftBatch({ ...batch, gifterName: null }, 'group', 5)).to.deep.equal([]);
+	});
+
+	it('makes one group scene naming a capped number of recipients', () => {
+		const [gifter, ...rest] = planGiftBatch(communityGift, 'group', 2);
+
+		expect(rest).to.be.empty;
+		expect(gifter).to.deep.equal({
+			broadcasterName: 'broadcaster1',
+			userName: 'gifter',
+			userDisplayName: 'Gifter',
+			isGifting: true,
+			giftCount: 50,
+			recipients: ['USER1', 'USER2'],
+		});
+	});
+
+	it('neither names nor draws recipients who opted out', () => {
+		const isIgnored = (userName: string) => userName === 'user1';
+		const [gifter, ...rest] = planGiftBatch(communityGift, 'reduced', 2, isIgnored);
+
+		expect(gifter.recipients).to.deep.equal(['USER2', 'USER3']);
+		expect(gifter.giftCount).to.equal(50);
+		expect(rest.map((event) => event.userName)).to.deep.equal(['user2', 'user3']);
+
+		const loneGift = { ...communityGift, isCommunityGift: false, giftCount: 1, recipients: [recipients[0]] };
+		expect(planGiftBatch(loneGift, 'group', 5, isIgnored)).to.deep.equal([]);
+	});
+
+	it('adds quiet sweatlings for a reduced set of recipients', () => {
+		const events = planGiftBatch(communityGift, 'reduced', 2);
+
+		expect(events.map((event) => [event.userName, event.quiet])).to.deep.equal([
+			['gifter', undefined],
+			['user1', true],
+			['user2', true],
+		]);
+		expect(planGiftBatch({ ...communityGift, gifterName: null }, 'reduced', 2)).to.have.length(1);
+	});
+});
@@ -1,12 +1,16 @@
 import { expect } from 'chai';
-import { IgnoreListManager } from '../src/utils/IgnoreListManager';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreListManager } from '../src/managers/IgnoreListManager';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { JsonFileStorage } from '../src/storage/JsonFileStorage';
 
 describe('IgnoreListManager', () => {
 	let ignoreListManager: IgnoreListManager;
-	const filePath = './ignoreList.json';
 
 	beforeEach(() => {
-		ignoreListManager = new IgnoreListManager(filePath);
+		ignoreListManager = new IgnoreListManager(new MemoryStorage());
 	});
 
 	it('should add user to ignore list', async () => {
@@ -34,4 +38,15 @@ describe('IgnoreListManager', () => {
 
 		expect(result).to.be.true;
 	});
+
+	it('should keep the file when it cannot be read', async () => {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-list-'));
+		const filePath = path.join(tempDir, 'ignore.json');
+		await fs.writeFile(filePath, '["user1"', 'utf-8');
+
+		await new IgnoreListManager(new JsonFileStorage(tempDir)).loadIgnoreList();
+
+		expect(await fs.readFile(filePath, 'utf-8')).to.equal('["user1"');
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
 });
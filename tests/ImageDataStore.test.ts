@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { openDatabase } from '../src/utils/database';
+import { SqliteStorage } from '../src/storage/SqliteStorage';
+import { DEFAULT_GENERATION_METADATA, withGenerationDefaults } from '../src/types/images';
+
+describe('ImageDataStore', () => {
+	let imageDataStore: ImageDataStore;
+
+	const image = (date: string) =>
+		withGenerationDefaults({
+			image: `https://example.com/${date}.png`,
+			analysis: 'analysis',
+			revisedPrompt: 'prompt',
+			date,
+		});
+
+	beforeEach(() => {
+		imageDataStore = new ImageDataStore(new SqliteStorage(openDatabase(':memory:')));
+	});
+
+	afterEach(async () => {
+		await imageDataStore.close();
+	});
+
+	it('returns the total image count for the broadcaster', async () => {
+		await imageDataStore.storeImageData('Broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		await imageDataStore.storeImageData('broadcaster2', 'user1', image('2024-01-02T00:00:00.000Z'));
+		const total = await imageDataStore.storeImageData('broadcaster1', 'User2', image('2024-01-03T00:00:00.000Z'));
+
+		expect(total).to.equal(2);
+	});
+
+	it('queries images by user, channel and date, newest first', async () => {
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-02-01T00:00:00.000Z'));
+		await imageDataStore.storeImageData('broadcaster1', 'user2', image('2024-03-01T00:00:00.000Z'));
+
+		const userImages = await imageDataStore.getUserImages('broadcaster1', 'USER1');
+		expect(userImages.map((i) => i.date)).to.deep.equal(['2024-02-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z']);
+
+		const january = await imageDataStore.getImages({ from: '2024-01-01', to: '2024-02-01' });
+		expect(january).to.have.lengthOf(1);
+		expect(january[0].user).to.equal('user1');
+	});
+
+	it('returns the latest and a random image of a user', async () => {
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-01-01T00:00:00.000Z'));
+		await imageDataStore.storeImageData('broadcaster1', 'user1', image('2024-02-01T00:00:00.000Z'));
+		await imageDataStore.storeImageData('broadcaster2', 'user1', image('2024-03-01T00:00:00.000Z'));
+
+		expect((await imageDataStore.getLatestUserImage('broadcaster1', 'User1'))?.date).to.equal(
+			'2024-02-01T00:00:00.000Z',
+		);
+		expect((await imageDataStore.getRandomUserImage('broadcaster1', 'user1'))?.broadcaster).to.equal('broadcaster1');
+		expect(await imageDataStore.getLatestUserImage('broadcaster1', 'user2')).to.equal(undefined);
+		expect(await imageDataStore.getRandomUserImage('broadcaster1', 'user2')).to.equal(undefined);
+	});
+
+	it('imports the legacy images.json structure', async () => {
+		const imported = await imageDataStore.importBroadcasterImages({
+			Broadcaster1: {
+				user1: [image('2024-01-01T00:00:00.000Z'), image('2024-01-02T00:00:00.000Z')],
+				user2: [image('2024-01-03T00:00:00.000Z')],
+			},
+		});
+
+		expect(imported).to.equal(3);
+		expect(await imageDataStore.countImages({ broadcaster: 'broadcaster1' })).to.equal(3);
+	});
+
+	it('stores generation metadata', async () => {
+		await imageDataStore.storeImageData('broadcaster1', 'user1', {
+			...image('2024-01-01T00:00:00.000Z'),
+			style: 'pixel',
+			theme: 'halloween',
+			trigger: 'subscribing',
+			source: 'twitch',
+			chatModel: 'gpt-4o',
+			imageModel: 'dall-e-3',
+			retries: 1,
+			timings: { analysisMs: 1, generationMs: 2, uploadMs: 3, totalMs: 6 },
+		});
+
+		const [stored] = await imageDataStore.getUserImages('broadcaster1', 'user1');
+
+		expect(stored).to.include({ style: 'pixel', theme: 'halloween', trigger: 'subscribing', retries: 1 });
+		expect(stored.timings).to.deep.equal({ analysisMs: 1, generationMs: 2, uploadMs: 3, totalMs: 6 });
+	});
+
+	it('reads records from databases created before metadata was tracked', async () => {
+		const db = openDatabase(':memory:');
+		db.exec(`
+			CREATE TABLE broadcasters (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE);
+			CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE);
+			CREATE TABLE images (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				broadcaster_id INTEGER NOT NULL REFERENCES broadcasters(id),
+				user_id INTEGER NOT NULL REFERENCES users(id),
+				image TEXT NOT NULL,
+				analysis TEXT NOT NULL DEFAULT '',
+				revised_prompt TEXT NOT NULL DEFAULT '',
+				date TEXT NOT NULL
+			);
+			INSERT INTO broadcasters (name) VALUES ('broadcaster1');
+			INSERT INTO users (name) VALUES ('user1');
+			INSERT INTO images (broadcaster_id, user_id, image, date) VALUES (1, 1, 'https://example.com/old.png', '2023-01-01');
+		`);
+		const legacyStore = new ImageDataStore(new SqliteStorage(db));
+
+		const [stored] = await legacyStore.getUserImages('broadcaster1', 'user1');
+		await legacyStore.close();
+
+		expect(stored).to.deep.include({ ...DEFAULT_GENERATION_METADATA, image: 'https://example.com/old.png' });
+	});
+});
@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { MockOpenAIManager } from '../src/mock/MockOpenAIManager';
+import { createMockValue } from '../src/mock/mockSchemaValue';
+import { DallE3ImageProvider } from '../src/providers/DallE3ImageProvider';
+import { finalSchema } from '../src/schemas/imageSchemas';
+
+describe('MockOpenAIManager', () => {
+	const openAIManager = new MockOpenAIManager('gpt-4o');
+
+	it('returns structured output that satisfies the schema', async () => {
+		const output = await openAIManager.getChatCompletion([{ role: 'user', content: 'Username: sweatling' }], {
+			schema: finalSchema,
+			schemaName: 'finalSchema',
+		});
+
+		expect(finalSchema.safeParse(output).success).to.equal(true);
+		expect(output.step2.scene.setting).to.equal('mock finalSchema.step2.scene.setting');
+	});
+
+	it('returns placeholder PNGs that image providers accept', async () => {
+		const image = await new DallE3ImageProvider(openAIManager).generateImage('a sweatling');
+
+		expect(image.revisedPrompt).to.equal('a sweatling');
+		expect('data' in image && image.data.subarray(1, 4).toString('ascii')).to.equal('PNG');
+	});
+
+	it('refuses schemas it cannot fill', () => {
+		expect(() => createMockValue(z.object({ when: z.date() }))).to.throw('Cannot mock ZodDate at value.when');
+	});
+});
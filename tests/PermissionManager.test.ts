@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { PermissionManager } from '../src/managers/PermissionManager';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { DEFAULT_COMMAND_ROLES, parseCommandRoles } from '../src/constants/permissions';
+
+describe('PermissionManager', () => {
+	let storage: MemoryStorage;
+	let permissionManager: PermissionManager;
+
+	const chatUser = (userName: string, ...badges: string[]) => ({
+		userName,
+		badges: new Map(badges.map((badge) => [badge, '1'])),
+	});
+
+	beforeEach(async () => {
+		storage = new MemoryStorage();
+		await storage.writeDocument('trusted', { Channel1: ['Helper'] });
+		permissionManager = new PermissionManager(storage, new Set(['admin1']), DEFAULT_COMMAND_ROLES);
+		await permissionManager.loadTrustedUsers();
+	});
+
+	it('reads roles from badges, trusted users and admins', () => {
+		expect(permissionManager.getRole('channel1', chatUser('viewer1'))).to.equal('viewer');
+		expect(permissionManager.getRole('channel1', chatUser('vip1', 'vip'))).to.equal('vip');
+		expect(permissionManager.getRole('channel1', chatUser('helper', 'vip'))).to.equal('trusted');
+		expect(permissionManager.getRole('channel2', chatUser('helper'))).to.equal('viewer');
+		expect(permissionManager.getRole('channel1', chatUser('mod1', 'moderator'))).to.equal('mod');
+		expect(permissionManager.getRole('channel1', chatUser('mod2', 'lead_moderator'))).to.equal('mod');
+		expect(permissionManager.getRole('channel1', chatUser('Channel1'))).to.equal('broadcaster');
+		expect(permissionManager.getRole('channel1', chatUser('Admin1', 'vip'))).to.equal('admin');
+	});
+
+	it('lets every role run the commands of the roles below it', () => {
+		expect(permissionManager.canRunCommand('myai', 'channel1', chatUser('viewer1'))).to.equal(true);
+		expect(permissionManager.canRunCommand('settheme', 'channel1', chatUser('helper'))).to.equal(false);
+		expect(permissionManager.canRunCommand('settheme', 'channel1', chatUser('mod1', 'moderator'))).to.equal(true);
+		expect(permissionManager.canRunCommand('aisweatling', 'channel1', chatUser('mod1', 'moderator'))).to.equal(false);
+		expect(permissionManager.canRunCommand('aisweatling', 'channel1', chatUser('channel1', 'broadcaster'))).to.equal(
+			true,
+		);
+		expect(permissionManager.canRunCommand('ping', 'channel1', chatUser('channel1', 'broadcaster'))).to.equal(false);
+		expect(permissionManager.canRunCommand('ping', 'channel1', chatUser('admin1'))).to.equal(true);
+	});
+
+	it('adds and removes trusted users per channel and persists them', async () => {
+		expect(await permissionManager.addTrustedUser('channel2', 'Helper')).to.equal(true);
+		expect(await permissionManager.addTrustedUser('channel2', 'helper')).to.equal(false);
+		expect(await permissionManager.removeTrustedUser('channel1', 'HELPER')).to.equal(true);
+		expect(await permissionManager.removeTrustedUser('channel1', 'helper')).to.equal(false);
+
+		expect(await storage.readDocument('trusted')).to.deep.equal({ channel1: [], channel2: ['helper'] });
+	});
+
+	it('overrides the minimum role of commands', () => {
+		const commandRoles = parseCommandRoles('!aisweatling:trusted, ping : broadcaster');
+
+		expect(commandRoles.aisweatling).to.equal('trusted');
+		expect(commandRoles.ping).to.equal('broadcaster');
+		expect(commandRoles.settheme).to.equal(DEFAULT_COMMAND_ROLES.settheme);
+		expect(() => parseCommandRoles('ping:owner')).to.throw('Invalid command role');
+	});
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getPromptVersion, PromptManager } from '../src/managers/PromptManager';
+import { DEFAULT_PROMPT_SET } from '../src/constants/prompts';
+
+describe('PromptManager', () => {
+	let promptsDir: string;
+
+	const writePromptFile = (fileName: string, data: unknown) =>
+		fs.writeFile(path.join(promptsDir, fileName), JSON.stringify(data), 'utf-8');
+
+	const promptSet = (name: string, version: number) => ({
+		name,
+		version,
+		structuredOutputPrompt: ['Today is __DATE__.', '__THEME_SECTION__'],
+		themeInstructionBlock: 'Theme: __THEME__',
+		imagePromptTemplate: `${name} v${version}: __DATA__`,
+	});
+
+	beforeEach(async () => {
+		promptsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(promptsDir, { recursive: true, force: true });
+	});
+
+	it('falls back to the built-in prompts', async () => {
+		const promptManager = new PromptManager(path.join(promptsDir, 'missing'));
+		await promptManager.loadPrompts();
+
+		expect(promptManager.getPromptSet('broadcaster1')).to.equal(DEFAULT_PROMPT_SET);
+		expect(getPromptVersion(DEFAULT_PROMPT_SET)).to.equal('default@1');
+	});
+
+	it('loads prompt sets and assigns them per channel', async () => {
+		await writePromptFile('default.v2.json', promptSet('default', 2));
+		await writePromptFile('funny.json', promptSet('funny', 1));
+		await writePromptFile('broken.json', { ...promptSet('broken', 1), imagePromptTemplate: 'no data placeholder' });
+		await writePromptFile('assignments.json', {
+			default: 'default@2',
+			channels: { Broadcaster1: 'funny@1', broadcaster2: 'missing@1' },
+		});
+
+		const promptManager = new PromptManager(promptsDir);
+		await promptManager.loadPrompts();
+
+		expect(promptManager.getPromptVersions()).to.deep.equal(['default@1', 'default@2', 'funny@1']);
+		expect(promptManager.getPromptSet('broadcaster1').structuredOutputPrompt).to.equal(
+			'Today is __DATE__.\n__THEME_SECTION__',
+		);
+		expect(getPromptVersion(promptManager.getPromptSet('broadcaster1'))).to.equal('funny@1');
+		expect(getPromptVersion(promptManager.getPromptSet('broadcaster2'))).to.equal('default@2');
+		expect(getPromptVersion(promptManager.getPromptSet('broadcaster3'))).to.equal('default@2');
+	});
+
+	it('drops assignments to prompt sets that are gone after a reload', async () => {
+		await writePromptFile('funny.json', promptSet('funny', 1));
+		await writePromptFile('assignments.json', { default: 'funny@1', channels: { broadcaster1: 'funny@1' } });
+		const promptManager = new PromptManager(promptsDir);
+		await promptManager.loadPrompts();
+
+		await fs.rm(path.join(promptsDir, 'funny.json'));
+		await writePromptFile('assignments.json', { channels: 'invalid' });
+		await promptManager.loadPrompts();
+
+		expect(promptManager.getAssignment('broadcaster1')).to.equal('default@1');
+		expect(promptManager.getPromptSet('broadcaster1')).to.equal(DEFAULT_PROMPT_SET);
+		expect(promptManager.getPromptSet('broadcaster2')).to.equal(DEFAULT_PROMPT_SET);
+	});
+
+	it('splits generations between control and variant', async () => {
+		await writePromptFile('funny.json', promptSet('funny', 1));
+		await writePromptFile('assignments.json', {
+			channels: { broadcaster1: { control: 'default@1', variant: 'funny@1', variantPercentage: 25 } },
+		});
+
+		const rolls = [0.1, 0.3, 0.24, 0.9];
+		const promptManager = new PromptManager(promptsDir, () => rolls.shift()!);
+		await promptManager.loadPrompts();
+
+		const versions = [1, 2, 3, 4].map(() => getPromptVersion(promptManager.getPromptSet('broadcaster1')));
+		expect(versions).to.deep.equal(['funny@1', 'default@1', 'funny@1', 'default@1']);
+	});
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { parseChannelBudgets, SpendTracker } from '../src/managers/SpendTracker';
+import { parsePriceTable } from '../src/constants/prices';
+import { openDatabase, SqliteDatabase } from '../src/utils/database';
+
+const prices = { 'chat-model': 0.5, 'image-model': 2 };
+
+describe('SpendTracker', () => {
+	let db: SqliteDatabase;
+
+	beforeEach(() => {
+		db = openDatabase(':memory:');
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	it('prices calls and totals them per broadcaster, day and month', () => {
+		const spendTracker = new SpendTracker(db, prices);
+		spendTracker.record('Broadcaster1', 'chat', 'chat-model', {}, new Date('2024-03-01T10:00:00Z'));
+		spendTracker.record('broadcaster1', 'image', 'image-model', {}, new Date('2024-03-02T10:00:00Z'));
+		spendTracker.record('broadcaster1', 'image', 'unknown-model', {}, new Date('2024-03-02T11:00:00Z'));
+		spendTracker.record('broadcaster2', 'image', 'image-model', {}, new Date('2024-03-02T10:00:00Z'));
+
+		const status = spendTracker.getBudgetStatus('broadcaster1', new Date('2024-03-02T12:00:00Z'));
+
+		expect(status.daily).to.equal(2);
+		expect(status.monthly).to.equal(2.5);
+		expect(status.exceeded).to.equal(null);
+	});
+
+	it('reports the used up cap, with channel caps over the default caps', () => {
+		const spendTracker = new SpendTracker(
+			db,
+			prices,
+			{ daily: 2, monthly: 10 },
+			parseChannelBudgets('broadcaster2::3'),
+		);
+		const now = new Date('2024-03-02T12:00:00Z');
+		spendTracker.record('broadcaster1', 'image', 'image-model', {}, now);
+		spendTracker.record('broadcaster2', 'image', 'image-model', {}, new Date('2024-03-01T12:00:00Z'));
+		spendTracker.record('broadcaster2', 'image', 'image-model', {}, now);
+
+		expect(spendTracker.getBudgetStatus('broadcaster1', now).exceeded).to.equal('daily');
+		expect(spendTracker.getBudgetStatus('broadcaster2', now).exceeded).to.equal('monthly');
+		expect(spendTracker.getBudgetStatus('broadcaster1', new Date('2024-03-03T12:00:00Z')).exceeded).to.equal(null);
+	});
+
+	it('counts reserved calls against the budget until they are given back', () => {
+		const spendTracker = new SpendTracker(db, prices, { daily: 5 });
+		const now = new Date('2024-03-02T12:00:00Z');
+		spendTracker.record('broadcaster1', 'image', 'image-model', {}, now);
+
+		const release = spendTracker.reserve('Broadcaster1', 'image-model');
+		expect(spendTracker.getBudgetStatus('broadcaster1', now).exceeded).to.equal(null);
+		const releaseSecond = spendTracker.reserve('broadcaster1', 'image-model');
+		expect(spendTracker.getBudgetStatus('broadcaster1', now)).to.include({ daily: 2, exceeded: 'daily' });
+
+		release();
+		release();
+		releaseSecond();
+		expect(spendTracker.getBudgetStatus('broadcaster1', now).exceeded).to.equal(null);
+		// Giving a reservation back twice must not free up the budget of another one.
+		spendTracker.reserve('broadcaster1', 'image-model');
+		spendTracker.reserve('broadcaster1', 'image-model');
+		expect(spendTracker.getBudgetStatus('broadcaster1', now).exceeded).to.equal('daily');
+	});
+
+	it('prices images by quality and size and falls back to the model price', () => {
+		const spendTracker = new SpendTracker(db, { ...prices, 'image-model:high:landscape': 6 });
+
+		expect(
+			spendTracker.record('broadcaster1', 'image', 'image-model', { quality: 'high', size: 'landscape' }),
+		).to.equal(6);
+		expect(spendTracker.record('broadcaster1', 'image', 'image-model', { quality: 'high' })).to.equal(2);
+		expect(spendTracker.record('broadcaster1', 'image', 'image-model')).to.equal(2);
+	});
+
+	it('rejects invalid channel budgets and prices', () => {
+		expect(() => parseChannelBudgets('broadcaster1:lots')).to.throw('Invalid channel budget');
+		expect(() => parsePriceTable('{"dall-e-3": -1}')).to.throw('Invalid price table');
+		expect(parsePriceTable('{"dall-e-3": 0.08}')['dall-e-3']).to.equal(0.08);
+	});
+});
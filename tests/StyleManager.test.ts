@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { StyleManager } from '../src/managers/StyleManager';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { DALLE_TEMPLATES } from '../src/constants/styles';
+
+describe('StyleManager', () => {
+	let storage: MemoryStorage;
+	let styleManager: StyleManager;
+
+	const keywords = (broadcaster: string) => styleManager.getChannelStyles(broadcaster).map((style) => style.keyword);
+
+	beforeEach(async () => {
+		storage = new MemoryStorage();
+		await storage.writeDocument('styles', {
+			styles: [
+				{ name: 'oil painting', keyword: 'oil', description: 'oil' },
+				{ name: 'pixel art', keyword: 'pixel', description: 'pixel' },
+				{ name: 'watercolor', keyword: 'watercolor', description: 'watercolor' },
+			],
+			channels: {},
+		});
+		styleManager = new StyleManager(storage);
+		await styleManager.loadStyles();
+	});
+
+	it('starts with the default styles when none are stored', async () => {
+		const emptyStorage = new MemoryStorage();
+		const defaultStyles = new StyleManager(emptyStorage);
+		await defaultStyles.loadStyles();
+
+		expect(defaultStyles.getStyles()).to.have.lengthOf(DALLE_TEMPLATES.length);
+		expect(await emptyStorage.readDocument('styles'))
+			.to.have.property('styles')
+			.with.lengthOf(DALLE_TEMPLATES.length);
+
+		const [template] = DALLE_TEMPLATES;
+		const weight = template.weight;
+		expect(await defaultStyles.setStyleWeight(template.keyword, 42)).to.equal(true);
+		expect(defaultStyles.getStyle(template.keyword)?.weight).to.equal(42);
+		expect(template.weight).to.equal(weight);
+	});
+
+	it('adds, replaces and removes styles', async () => {
+		expect(await styleManager.addStyle({ name: 'ink', keyword: 'Ink', description: 'ink' })).to.equal(true);
+		expect(await styleManager.addStyle({ name: 'ink wash', keyword: 'ink', description: 'ink wash' })).to.equal(false);
+		expect(styleManager.getStyle('INK')?.name).to.equal('ink wash');
+
+		expect(await styleManager.removeStyle('ink')).to.equal(true);
+		expect(await styleManager.removeStyle('ink')).to.equal(false);
+		expect(styleManager.getStyle('ink')).to.equal(undefined);
+	});
+
+	it('limits channels to enabled styles and never uses disabled ones', async () => {
+		await styleManager.disableStyle('broadcaster1', 'pixel');
+		expect(keywords('broadcaster1')).to.deep.equal(['oil', 'watercolor']);
+
+		await styleManager.enableStyle('Broadcaster1', 'oil');
+		expect(keywords('broadcaster1')).to.deep.equal(['oil']);
+		expect(styleManager.isStyleAvailable('broadcaster1', 'watercolor')).to.equal(false);
+		expect(keywords('broadcaster2')).to.deep.equal(['oil', 'pixel', 'watercolor']);
+
+		await styleManager.resetStyle('broadcaster1', 'oil');
+		await styleManager.resetStyle('broadcaster1', 'pixel');
+		expect(keywords('broadcaster1')).to.deep.equal(['oil', 'pixel', 'watercolor']);
+	});
+
+	it('picks styles by weight and avoids the recent ones', async () => {
+		const styles = new StyleManager(storage, () => 0.5);
+		await styles.loadStyles();
+		await styles.setStyleWeight('watercolor', 2);
+
+		// total weight 4, 0.5 lands in the second half, which belongs to watercolor
+		expect((await styles.pickStyle('broadcaster1'))?.keyword).to.equal('watercolor');
+		expect((await styles.pickStyle('broadcaster1', ['Watercolor']))?.keyword).to.equal('pixel');
+		expect((await styles.pickStyle('broadcaster1', ['oil', 'pixel', 'watercolor']))?.keyword).to.equal('watercolor');
+	});
+
+	it('picks from the style pool and ignores pools without available styles', async () => {
+		await styleManager.disableStyle('broadcaster1', 'oil');
+
+		expect((await styleManager.pickStyle('broadcaster1', [], ['Pixel']))?.keyword).to.equal('pixel');
+		expect((await styleManager.pickStyle('broadcaster1', ['pixel'], ['pixel']))?.keyword).to.equal('pixel');
+		expect((await styleManager.pickStyle('broadcaster1', [], ['oil']))?.keyword).to.be.oneOf(['pixel', 'watercolor']);
+	});
+
+	it('walks through every style before repeating in rotation mode', async () => {
+		await styleManager.setSelectionMode('broadcaster1', 'rotation');
+
+		const firstRotation = [];
+		for (let i = 0; i < 3; i++) {
+			firstRotation.push((await styleManager.pickStyle('broadcaster1'))?.keyword);
+		}
+		expect(firstRotation.sort()).to.deep.equal(['oil', 'pixel', 'watercolor']);
+
+		const reloaded = new StyleManager(storage);
+		await reloaded.loadStyles();
+		expect(reloaded.getSelectionMode('broadcaster1')).to.equal('rotation');
+		expect(await reloaded.pickStyle('broadcaster1')).to.not.equal(undefined);
+	});
+
+	it('persists channel settings and forgets removed styles', async () => {
+		expect(await styleManager.enableStyle('broadcaster1', 'unknown')).to.equal(false);
+		await styleManager.enableStyle('broadcaster1', 'pixel');
+		await styleManager.removeStyle('pixel');
+
+		const reloaded = new StyleManager(storage);
+		await reloaded.loadStyles();
+
+		expect(reloaded.getChannelStyles('broadcaster1').map((style) => style.keyword)).to.deep.equal([
+			'oil',
+			'watercolor',
+		]);
+	});
+});
@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { createMockValue } from '../src/mock/mockSchemaValue';
+import { finalSchema } from '../src/schemas/imageSchemas';
+import { parseStoredAnalysis } from '../src/utils/helpers';
+
+describe('parseStoredAnalysis', () => {
+	it('recovers the structured output after the username line', () => {
+		const output = createMockValue(finalSchema);
+		const analysis = `Literal username: User1\n${JSON.stringify(output, null, 2)}`;
+
+		expect(parseStoredAnalysis(analysis)).to.deep.equal(output);
+	});
+
+	it('returns undefined for analyses without a structured output', () => {
+		expect(parseStoredAnalysis('Username: User1\nA plain text analysis')).to.equal(undefined);
+		expect(parseStoredAnalysis('Literal username: User1\n{"step1": {}}')).to.equal(undefined);
+		expect(parseStoredAnalysis('Literal username: User1\n{broken')).to.equal(undefined);
+	});
+});
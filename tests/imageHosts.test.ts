@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { LocalImageHost } from '../src/hosts/LocalImageHost';
+import { GalleryServer } from '../src/server/GalleryServer';
+import { ImageDataStore } from '../src/managers/ImageDataStore';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+
+describe('LocalImageHost', () => {
+	let imagesDir: string;
+	let server: Server;
+	let baseUrl: string;
+	let imageHost: LocalImageHost;
+
+	beforeEach(async () => {
+		imagesDir = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'image-host-')), 'images');
+		server = new GalleryServer(new ImageDataStore(new MemoryStorage()), imagesDir).getApp().listen(0);
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		imageHost = new LocalImageHost(imagesDir, `${baseUrl}/images/`);
+	});
+
+	afterEach(async () => {
+		server.close();
+		await fs.rm(path.dirname(imagesDir), { recursive: true, force: true });
+	});
+
+	it('stores image data and serves it through the gallery server', async () => {
+		const url = await imageHost.upload({ data: Buffer.from('png') });
+
+		expect(url).to.match(new RegExp(`^${baseUrl}/images/[\\w-]+\\.png$`));
+		const response = await fetch(url);
+		expect(response.status).to.equal(200);
+		expect(Buffer.from(await response.arrayBuffer()).toString()).to.equal('png');
+	});
+
+	it('downloads images that are only available by url', async () => {
+		const first = await imageHost.upload({ data: Buffer.from('png') });
+		const second = await imageHost.upload({ url: first });
+
+		expect(second).to.not.equal(first);
+		expect(await fs.readFile(path.join(imagesDir, path.basename(second)), 'utf-8')).to.equal('png');
+	});
+});
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { GeneratedImage, ImageProvider, ImageProviderName } from '../src/providers/ImageProvider';
+import { ImageProviderRegistry, parseChannelProviders } from '../src/providers/ImageProviderRegistry';
+import { HttpImageProvider } from '../src/providers/HttpImageProvider';
+import { DallE3ImageProvider } from '../src/providers/DallE3ImageProvider';
+import { OpenAIImageProvider } from '../src/providers/OpenAIImageProvider';
+import { MockOpenAIManager } from '../src/mock/MockOpenAIManager';
+import OpenAI from 'openai';
+
+class RecordingOpenAIManager extends MockOpenAIManager {
+	readonly requests: OpenAI.Images.ImageGenerateParams[] = [];
+
+	override async generateImage(params: OpenAI.Images.ImageGenerateParams): Promise<OpenAI.Images.ImagesResponse> {
+		this.requests.push(params);
+		return super.generateImage(params);
+	}
+}
+
+const provider = (name: ImageProviderName): ImageProvider => ({
+	name,
+	model: name,
+	generateImage: async (prompt: string): Promise<GeneratedImage> => ({
+		url: 'https://example.com/1.png',
+		revisedPrompt: prompt,
+	}),
+});
+
+describe('ImageProviderRegistry', () => {
+	it('uses the channel provider and falls back to the default', () => {
+		const registry = new ImageProviderRegistry(
+			[provider('dall-e-3'), provider('local')],
+			'dall-e-3',
+			parseChannelProviders('Channel1:local'),
+		);
+
+		expect(registry.getProvider('channel1').name).to.equal('local');
+		expect(registry.getProvider('channel2').name).to.equal('dall-e-3');
+		expect(registry.getProvider().name).to.equal('dall-e-3');
+	});
+
+	it('rejects providers that are not available', () => {
+		expect(() => new ImageProviderRegistry([provider('dall-e-3')], 'dall-e-3', { channel1: 'local' })).to.throw(
+			'Image provider "local" is not available',
+		);
+		expect(() => parseChannelProviders('channel1')).to.throw('Invalid channel provider');
+	});
+});
+
+describe('HttpImageProvider', () => {
+	let server: Server;
+	let baseUrl: string;
+	let requests: Record<string, unknown>[];
+
+	before(() => {
+		const app = express();
+		app.use(express.json());
+		app.post('/txt2img', (req, res) => {
+			requests.push(req.body);
+			res.json({ images: [Buffer.from('png').toString('base64')] });
+		});
+		app.post('/url', (_req, res) => {
+			res.json({ url: 'https://example.com/generated.png' });
+		});
+		app.post('/empty', (_req, res) => {
+			res.json({});
+		});
+		server = app.listen(0);
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	beforeEach(() => {
+		requests = [];
+	});
+
+	after(() => {
+		server.close();
+	});
+
+	it('sends the prompt and decodes base64 images', async () => {
+		const image = await new HttpImageProvider(`${baseUrl}/txt2img`, {
+			width: 512,
+			params: { steps: 20 },
+		}).generateImage('a sweatling');
+
+		expect(requests).to.deep.equal([{ prompt: 'a sweatling', width: 512, height: 1024, steps: 20 }]);
+		expect(image).to.deep.equal({ data: Buffer.from('png'), revisedPrompt: 'a sweatling' });
+	});
+
+	it('maps the image options to width and height', async () => {
+		await new HttpImageProvider(`${baseUrl}/txt2img`, { width: 512 }).generateImage('a sweatling', {
+			size: 'landscape',
+		});
+
+		expect(requests).to.deep.equal([{ prompt: 'a sweatling', width: 1536, height: 1024 }]);
+	});
+
+	it('accepts a url instead of image data', async () => {
+		const image = await new HttpImageProvider(`${baseUrl}/url`).generateImage('a sweatling');
+
+		expect(image).to.deep.equal({ url: 'https://example.com/generated.png', revisedPrompt: 'a sweatling' });
+	});
+
+	it('fails when no image is returned', async () => {
+		let error: unknown;
+		try {
+			await new HttpImageProvider(`${baseUrl}/empty`).generateImage('a sweatling');
+		} catch (e) {
+			error = e;
+		}
+
+		expect(error).to.be.an('error').with.property('message').that.includes('No image received');
+	});
+});
+
+describe('OpenAI image providers', () => {
+	it('map the image options and otherwise use their configured defaults', async () => {
+		const openAIManager = new RecordingOpenAIManager('gpt-4o');
+		const dallE3 = new DallE3ImageProvider(openAIManager, { size: '1024x1792' });
+		const openAI = new OpenAIImageProvider(openAIManager);
+
+		await dallE3.generateImage('a sweatling');
+		await dallE3.generateImage('a sweatling', { quality: 'high', size: 'landscape' });
+		await openAI.generateImage('a sweatling', { quality: 'high', size: 'portrait' });
+
+		expect(openAIManager.requests.map(({ quality, size }) => [quality, size])).to.deep.equal([
+			['standard', '1024x1792'],
+			['hd', '1792x1024'],
+			['high', '1024x1536'],
+		]);
+	});
+});
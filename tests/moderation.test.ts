@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { KeywordModerationClassifier, parseKeywordRules } from '../src/moderation/KeywordModerationClassifier';
+import { ModerationClassifier } from '../src/moderation/ModerationClassifier';
+import { mergeVerdicts, Moderator } from '../src/moderation/Moderator';
+import { awaitApproval, holdForApproval } from '../src/moderation/holdForApproval';
+import { GenerationJobQueue } from '../src/managers/GenerationJobQueue';
+import { GenerationJob } from '../src/types/jobs';
+import { openDatabase } from '../src/utils/database';
+
+const failingClassifier: ModerationClassifier = {
+	name: 'openai',
+	classify: async () => {
+		throw new Error('Service unavailable');
+	},
+};
+
+describe('KeywordModerationClassifier', () => {
+	it('matches whole words case-insensitively and regex rules', async () => {
+		const classifier = new KeywordModerationClassifier(parseKeywordRules('gore, /nsfw\\w*/i'));
+
+		expect(await classifier.classify('A GORE covered sweatling')).to.deep.equal({
+			flagged: true,
+			categories: ['gore'],
+		});
+		expect(await classifier.classify('A gorilla wearing NSFWish armour')).to.deep.equal({
+			flagged: true,
+			categories: ['/nsfw\\w*/i'],
+		});
+		expect((await classifier.classify('A friendly gorilla')).flagged).to.be.false;
+	});
+
+	it('never flags without rules', async () => {
+		expect((await new KeywordModerationClassifier(parseKeywordRules('')).classify('anything')).flagged).to.be.false;
+	});
+});
+
+describe('Moderator', () => {
+	it('names the stage and classifier of every flag', async () => {
+		const moderator = new Moderator([new KeywordModerationClassifier(['gore'])]);
+
+		expect(await moderator.check('analysis', ['user1', 'gore everywhere'])).to.deep.equal({
+			flagged: true,
+			reasons: ['analysis: keywords (gore)'],
+		});
+		expect((await moderator.check('image', ['a sweatling'])).flagged).to.be.false;
+	});
+
+	it('flags texts when a classifier fails', async () => {
+		const moderator = new Moderator([failingClassifier, new KeywordModerationClassifier([])]);
+
+		expect(await moderator.check('image', ['a sweatling'])).to.deep.equal({
+			flagged: true,
+			reasons: ['image: openai unavailable'],
+		});
+	});
+
+	it('merges the verdicts of several stages', () => {
+		const merged = mergeVerdicts(
+			{ flagged: false, reasons: [] },
+			{ flagged: true, reasons: ['image: keywords (gore)'] },
+		);
+
+		expect(merged).to.deep.equal({ flagged: true, reasons: ['image: keywords (gore)'] });
+	});
+});
+
+describe('holdForApproval', () => {
+	const eventData = {
+		broadcasterName: 'broadcaster1',
+		userName: 'user1',
+		userDisplayName: 'User1',
+		trigger: 'custom' as const,
+		requestedBy: 'mod1',
+		source: 'twitch' as const,
+	};
+	const result = { image: 'https://example.com/1.png', analysis: 'analysis', revisedPrompt: 'prompt' };
+
+	it('holds a flagged result back for approval instead of posting it', async () => {
+		const db = openDatabase(':memory:');
+		const jobQueue = new GenerationJobQueue(db);
+		const requested: GenerationJob[] = [];
+
+		const outcome = await holdForApproval(
+			jobQueue,
+			eventData,
+			{ ...result, moderation: { flagged: true, reasons: ['keywords: gore'] } },
+			async (job) => {
+				requested.push(job);
+				return true;
+			},
+		);
+
+		expect(outcome).to.equal('awaiting_approval');
+		expect(requested).to.have.lengthOf(1);
+		const job = jobQueue.getJob(requested[0].id);
+		expect(job?.state).to.equal('awaiting_approval');
+		expect(job?.result?.image).to.equal(result.image);
+		expect(job?.eventData).to.include({ requestedBy: 'mod1', source: 'twitch', trigger: 'custom' });
+		db.close();
+	});
+
+	it('lets results that are not flagged be posted right away', async () => {
+		const db = openDatabase(':memory:');
+		const jobQueue = new GenerationJobQueue(db);
+		let requested = false;
+
+		const outcome = await holdForApproval(
+			jobQueue,
+			eventData,
+			{ ...result, moderation: { flagged: false, reasons: [] } },
+			async () => {
+				requested = true;
+				return true;
+			},
+		);
+
+		expect(outcome).to.equal('admitted');
+		expect(requested).to.equal(false);
+		expect(jobQueue.getUnfinishedJobs()).to.have.lengthOf(0);
+		db.close();
+	});
+
+	it('fails the job when the admin cannot be asked', async () => {
+		const db = openDatabase(':memory:');
+		const jobQueue = new GenerationJobQueue(db);
+		const job = jobQueue.enqueue(eventData);
+		const flagged = { ...result, moderation: { flagged: true, reasons: ['keywords: gore'] } };
+
+		expect(await awaitApproval(jobQueue, job, flagged, async () => false)).to.equal(false);
+		expect(jobQueue.getJob(job.id)).to.include({ state: 'failed', error: 'Could not ask for approval' });
+		expect(await holdForApproval(jobQueue, eventData, flagged, async () => false)).to.equal('failed');
+		db.close();
+	});
+});
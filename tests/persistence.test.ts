@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getBackupPath, readJsonFile, writeJsonFile } from '../src/utils/persistence';
+
+describe('persistence', () => {
+	let tempDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'persistence-'));
+		filePath = path.join(tempDir, 'data.json');
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('serialises concurrent writes in call order', async () => {
+		await Promise.all([1, 2, 3, 4, 5].map((value) => writeJsonFile(filePath, { value })));
+
+		expect(await readJsonFile(filePath)).to.deep.equal({ value: 5 });
+		expect(await fs.readdir(tempDir)).to.have.members(['data.json', 'data.json.bak']);
+	});
+
+	it('keeps the previous version as backup', async () => {
+		await writeJsonFile(filePath, { value: 1 });
+		await writeJsonFile(filePath, { value: 2 });
+
+		expect(JSON.parse(await fs.readFile(getBackupPath(filePath), 'utf-8'))).to.deep.equal({ value: 1 });
+	});
+
+	it('falls back to the backup when the file is corrupt', async () => {
+		await writeJsonFile(filePath, { value: 1 });
+		await writeJsonFile(filePath, { value: 2 });
+		await fs.writeFile(filePath, '{"value": 3', 'utf-8');
+
+		expect(await readJsonFile(filePath)).to.deep.equal({ value: 1 });
+	});
+
+	it('does not replace a good backup with a corrupt file', async () => {
+		await writeJsonFile(filePath, { value: 1 });
+		await writeJsonFile(filePath, { value: 2 });
+		await fs.writeFile(filePath, '{"value": 3', 'utf-8');
+		await writeJsonFile(filePath, { value: 4 });
+
+		expect(JSON.parse(await fs.readFile(getBackupPath(filePath), 'utf-8'))).to.deep.equal({ value: 1 });
+	});
+
+	it('rethrows missing file errors', async () => {
+		try {
+			await readJsonFile(filePath);
+			expect.fail('expected readJsonFile to throw');
+		} catch (error) {
+			expect(error).to.have.property('code', 'ENOENT');
+		}
+	});
+});
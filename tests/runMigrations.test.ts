@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getMigrationBackupPath, runMigrations } from '../src/migrations/runMigrations';
+import { SCHEMA_VERSIONS } from '../src/migrations/migrations';
+import { DEFAULT_GENERATION_METADATA } from '../src/types/images';
+
+describe('runMigrations', () => {
+	let tempDir: string;
+
+	const readJson = async (fileName: string) => JSON.parse(await fs.readFile(path.join(tempDir, fileName), 'utf-8'));
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('adds a schema version to unversioned files and keeps a backup', async () => {
+		await fs.writeFile(path.join(tempDir, 'ignore.json'), JSON.stringify(['user1']), 'utf-8');
+
+		const results = await runMigrations(tempDir);
+
+		expect(results).to.have.lengthOf(1);
+		expect(results[0]).to.include({ from: 0, to: SCHEMA_VERSIONS.ignore });
+		expect(await readJson('ignore.json')).to.deep.equal({ schemaVersion: SCHEMA_VERSIONS.ignore, data: ['user1'] });
+		expect(
+			JSON.parse(await fs.readFile(getMigrationBackupPath(path.join(tempDir, 'ignore.json'), 0), 'utf-8')),
+		).to.deep.equal(['user1']);
+	});
+
+	it('runs every pending images migration in order', async () => {
+		await fs.writeFile(
+			path.join(tempDir, 'images.json'),
+			JSON.stringify({ broadcaster1: [{ user: 'user1', image: 'https://example.com/1.png', date: '2024-01-01' }] }),
+			'utf-8',
+		);
+
+		await runMigrations(tempDir);
+
+		const images = await readJson('images.json');
+		expect(images.schemaVersion).to.equal(SCHEMA_VERSIONS.images);
+		expect(images.data.broadcaster1.user1[0]).to.deep.equal({
+			...DEFAULT_GENERATION_METADATA,
+			image: 'https://example.com/1.png',
+			date: '2024-01-01',
+			analysis: '',
+			revisedPrompt: '',
+		});
+	});
+
+	it('leaves up to date files untouched', async () => {
+		const themes = { schemaVersion: SCHEMA_VERSIONS.themes, data: { broadcaster1: 'halloween' } };
+		await fs.writeFile(path.join(tempDir, 'themes.json'), JSON.stringify(themes), 'utf-8');
+
+		expect(await runMigrations(tempDir)).to.be.empty;
+		expect(await fs.readdir(tempDir)).to.deep.equal(['themes.json']);
+	});
+
+	it('refuses files from a newer schema version', async () => {
+		const themes = { schemaVersion: SCHEMA_VERSIONS.themes + 1, data: { broadcaster1: 'halloween' } };
+		await fs.writeFile(path.join(tempDir, 'themes.json'), JSON.stringify(themes), 'utf-8');
+
+		const error = await runMigrations(tempDir).catch((error: unknown) => error);
+
+		expect(error).to.be.instanceOf(Error);
+		expect((error as Error).message).to.include(`schema version ${SCHEMA_VERSIONS.themes + 1}`);
+		expect(await readJson('themes.json')).to.deep.equal(themes);
+	});
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageBackend } from '../src/storage/StorageBackend';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { JsonFileStorage } from '../src/storage/JsonFileStorage';
+import { SqliteStorage } from '../src/storage/SqliteStorage';
+import { openDatabase } from '../src/utils/database';
+import { withGenerationDefaults } from '../src/types/images';
+
+const image = (date: string) =>
+	withGenerationDefaults({ image: `https://example.com/${date}.png`, analysis: '', revisedPrompt: '', date });
+
+const backends: Record<string, () => Promise<{ storage: StorageBackend; cleanup: () => Promise<void> }>> = {
+	MemoryStorage: async () => ({ storage: new MemoryStorage(), cleanup: async () => undefined }),
+	SqliteStorage: async () => ({ storage: new SqliteStorage(openDatabase(':memory:')), cleanup: async () => undefined }),
+	JsonFileStorage: async () => {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+		return {
+			storage: new JsonFileStorage(tempDir),
+			cleanup: () => fs.rm(tempDir, { recursive: true, force: true }),
+		};
+	},
+};
+
+for (const [name, createBackend] of Object.entries(backends)) {
+	describe(name, () => {
+		let storage: StorageBackend;
+		let cleanup: () => Promise<void>;
+
+		beforeEach(async () => {
+			({ storage, cleanup } = await createBackend());
+		});
+
+		afterEach(async () => {
+			await storage.close();
+			await cleanup();
+		});
+
+		it('returns undefined for missing documents', async () => {
+			expect(await storage.readDocument('themes')).to.be.undefined;
+		});
+
+		it('round-trips documents', async () => {
+			await storage.writeDocument('themes', { broadcaster1: 'halloween' });
+
+			expect(await storage.readDocument('themes')).to.deep.equal({ broadcaster1: 'halloween' });
+		});
+
+		it('queries images by broadcaster, user and date, newest first', async () => {
+			await storage.insertImages([
+				{ broadcaster: 'Broadcaster1', user: 'User1', image: image('2024-01-01') },
+				{ broadcaster: 'broadcaster1', user: 'user1', image: image('2024-01-03') },
+				{ broadcaster: 'broadcaster1', user: 'user2', image: image('2024-01-02') },
+				{ broadcaster: 'broadcaster2', user: 'user1', image: image('2024-01-04') },
+			]);
+
+			const images = await storage.queryImages({ broadcaster: 'broadcaster1', limit: 2, offset: 1 });
+
+			expect(images.map((i) => i.date)).to.deep.equal(['2024-01-02', '2024-01-01']);
+			expect(await storage.countImages({ user: 'user1', from: '2024-01-02' })).to.equal(2);
+			expect(await storage.listBroadcasters()).to.deep.equal(['broadcaster1', 'broadcaster2']);
+		});
+
+		it('assigns distinct ids to images', async () => {
+			await storage.insertImages([{ broadcaster: 'broadcaster1', user: 'user1', image: image('2024-01-01') }]);
+			await storage.insertImages([{ broadcaster: 'broadcaster1', user: 'user1', image: image('2024-01-02') }]);
+
+			const ids = (await storage.queryImages({})).map((i) => i.id);
+
+			expect(new Set(ids).size).to.equal(2);
+		});
+
+		it('keeps the reference to a replaced image', async () => {
+			await storage.insertImages([{ broadcaster: 'broadcaster1', user: 'user1', image: image('2024-01-01') }]);
+			const [original] = await storage.queryImages({});
+			await storage.insertImages([
+				{ broadcaster: 'broadcaster1', user: 'user1', image: { ...image('2024-01-02'), replaces: original.id } },
+			]);
+
+			const [reroll, first] = await storage.queryImages({});
+
+			expect(reroll.replaces).to.equal(original.id);
+			expect(first).to.not.have.property('replaces');
+		});
+	});
+}